@@ -0,0 +1,102 @@
+import { expect, mock, test } from 'bun:test';
+
+import { MouseError } from '../types';
+
+import { AsyncQueue } from './AsyncQueue';
+
+test('AsyncQueue should hand items to a waiting consumer and queue the rest in order', async () => {
+  // Arrange
+  const queue = new AsyncQueue<number>({ capacity: 10 });
+
+  // Act
+  const waiting = queue.next();
+  queue.push(1);
+  queue.push(2);
+  queue.push(3);
+
+  // Assert
+  expect(await waiting).toBe(1);
+  expect(await queue.next()).toBe(2);
+  expect(await queue.next()).toBe(3);
+  expect(queue.size).toBe(0);
+});
+
+test('AsyncQueue should drop the oldest item by default and count it', async () => {
+  // Arrange
+  const onDrop = mock((_dropped: number) => {});
+  const queue = new AsyncQueue<number>({ capacity: 2, onDrop });
+
+  // Act
+  for (const item of [1, 2, 3, 4]) {
+    queue.push(item);
+  }
+
+  // Assert
+  expect(await queue.next()).toBe(3);
+  expect(await queue.next()).toBe(4);
+  expect(queue.dropped).toBe(2);
+  expect(onDrop.mock.calls).toEqual([[1], [2]]);
+});
+
+test('AsyncQueue with drop-newest should keep the queued items', async () => {
+  // Arrange
+  const queue = new AsyncQueue<number>({ capacity: 2, overflow: 'drop-newest' });
+
+  // Act
+  for (const item of [1, 2, 3]) {
+    queue.push(item);
+  }
+
+  // Assert
+  expect(await queue.next()).toBe(1);
+  expect(await queue.next()).toBe(2);
+  expect(queue.dropped).toBe(1);
+});
+
+test('AsyncQueue with error should reject the next pull on overflow', async () => {
+  // Arrange
+  const queue = new AsyncQueue<number>({ capacity: 1, overflow: 'error' });
+
+  // Act
+  queue.push(1);
+  queue.push(2);
+
+  // Assert
+  await expect(queue.next()).rejects.toBeInstanceOf(MouseError);
+  expect(await queue.next()).toBe(1);
+  expect(queue.dropped).toBe(1);
+});
+
+test('AsyncQueue with block should keep every item and report when it fills up and drains', async () => {
+  // Arrange
+  const onFull = mock(() => {});
+  const onDrain = mock(() => {});
+  const queue = new AsyncQueue<number>({ capacity: 2, overflow: 'block', onFull, onDrain });
+
+  // Act & Assert
+  queue.push(1);
+  queue.push(2);
+  queue.push(3);
+  expect(onFull).toHaveBeenCalledTimes(1);
+  expect(queue.size).toBe(3);
+
+  expect(await queue.next()).toBe(1);
+  expect(onDrain).not.toHaveBeenCalled();
+  expect(await queue.next()).toBe(2);
+  expect(onDrain).toHaveBeenCalledTimes(1);
+  expect(queue.dropped).toBe(0);
+});
+
+test('AsyncQueue should deliver errors before queued items', async () => {
+  // Arrange
+  const queue = new AsyncQueue<number>({ capacity: 10 });
+  const error = new Error('failed');
+
+  // Act
+  queue.push(1);
+  queue.fail(error);
+
+  // Assert
+  await expect(queue.next()).rejects.toBe(error);
+  expect(await queue.next()).toBe(1);
+});
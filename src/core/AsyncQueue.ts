@@ -0,0 +1,137 @@
+import { MouseError, type QueueOverflowStrategy } from '../types';
+
+/**
+ * Options for an `AsyncQueue`.
+ */
+type AsyncQueueOptions = {
+  /** The number of items the queue holds before it overflows. */
+  capacity: number;
+  /** What to do when an item arrives while the queue is full. Defaults to `drop-oldest`. */
+  overflow?: QueueOverflowStrategy;
+  /** Called with the total number of dropped items each time one is dropped. */
+  onDrop?: (dropped: number) => void;
+  /** With `block`, called when the queue fills up, so the producer can pause. */
+  onFull?: () => void;
+  /** With `block`, called when a full queue has room again, so the producer can resume. */
+  onDrain?: () => void;
+};
+
+/**
+ * A bounded queue between a push-based producer and a consumer that pulls items one at a time.
+ * Errors are delivered before any queued items, and each one rejects a single pull.
+ */
+class AsyncQueue<T> {
+  private items: T[] = [];
+  private errors: Error[] = [];
+  private waiting: { resolve: (item: T) => void; reject: (err: Error) => void } | null = null;
+  private droppedCount = 0;
+  private full = false;
+  private readonly capacity: number;
+  private readonly overflow: QueueOverflowStrategy;
+  private readonly onDrop?: (dropped: number) => void;
+  private readonly onFull?: () => void;
+  private readonly onDrain?: () => void;
+
+  /**
+   * @param options The capacity of the queue and how it overflows.
+   */
+  constructor({ capacity, overflow = 'drop-oldest', onDrop, onFull, onDrain }: AsyncQueueOptions) {
+    this.capacity = Math.max(1, capacity);
+    this.overflow = overflow;
+    this.onDrop = onDrop;
+    this.onFull = onFull;
+    this.onDrain = onDrain;
+  }
+
+  /**
+   * The number of items dropped because the queue was full.
+   */
+  public get dropped(): number {
+    return this.droppedCount;
+  }
+
+  /**
+   * The number of items waiting to be pulled.
+   */
+  public get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Hands an item to a waiting consumer, or queues it.
+   * @param item The item to add.
+   */
+  public push(item: T): void {
+    if (this.waiting !== null && this.errors.length === 0) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(item);
+      return;
+    }
+
+    // A blocked producer may still deliver what it already had in hand, so `block` never drops
+    if (this.items.length >= this.capacity && this.overflow !== 'block') {
+      this.drop();
+      if (this.overflow === 'drop-newest') {
+        return;
+      }
+      if (this.overflow === 'error') {
+        this.fail(new MouseError(`Event queue overflowed: more than ${this.capacity} events are waiting`));
+        return;
+      }
+      this.items.shift();
+    }
+
+    this.items.push(item);
+
+    if (this.overflow === 'block' && !this.full && this.items.length >= this.capacity) {
+      this.full = true;
+      this.onFull?.();
+    }
+  }
+
+  /**
+   * Makes the next pull reject with an error.
+   * @param error The error to deliver.
+   */
+  public fail(error: Error): void {
+    if (this.waiting !== null) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+      return;
+    }
+    this.errors.push(error);
+  }
+
+  /**
+   * Returns the next error or item, waiting for one if the queue is empty.
+   * @returns {Promise} The next item.
+   */
+  public next(): Promise<T> {
+    const error = this.errors.shift();
+    if (error) {
+      return Promise.reject(error);
+    }
+
+    if (this.items.length > 0) {
+      const item = this.items.shift() as T;
+      if (this.full && this.items.length < this.capacity) {
+        this.full = false;
+        this.onDrain?.();
+      }
+      return Promise.resolve(item);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private drop(): void {
+    this.droppedCount++;
+    this.onDrop?.(this.droppedCount);
+  }
+}
+
+export { AsyncQueue, type AsyncQueueOptions };
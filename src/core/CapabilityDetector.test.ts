@@ -0,0 +1,61 @@
+import { expect, mock, test } from 'bun:test';
+
+import { CapabilityDetector, bestEncoding } from './CapabilityDetector';
+
+test('CapabilityDetector.queries should ask for every mouse mode and end with DA1', () => {
+  // Act
+  const queries = CapabilityDetector.queries();
+
+  // Assert
+  for (const mode of [1000, 1002, 1003, 1004, 1005, 1006, 1015, 1016, 2004]) {
+    expect(queries).toContain(`\x1b[?${mode}$p`);
+  }
+  expect(queries).toContain('\x1b[>0q');
+  expect(queries.endsWith('\x1b[c')).toBe(true);
+});
+
+test('CapabilityDetector should derive tracking levels and encodings from mode reports', () => {
+  // Arrange
+  const onDone = mock(() => {});
+  const detector = new CapabilityDetector(onDone);
+
+  // Act
+  for (const [mode, state] of [
+    [1000, 2],
+    [1002, 2],
+    [1003, 0],
+    [1005, 4],
+    [1006, 1],
+    [1015, 3],
+  ] as const) {
+    detector.handle({ type: 'mode-report', mode, state, data: '' });
+  }
+  detector.handle({ type: 'terminal-version', version: 'Term 1.0', data: '' });
+  const handledText = detector.handle({ type: 'text', text: 'a' });
+  detector.handle({ type: 'device-attributes', attributes: [62, 22], data: '' });
+
+  // Assert
+  expect(handledText).toBe(false);
+  expect(onDone).toHaveBeenCalledTimes(1);
+  expect(detector.result()).toEqual({
+    responded: true,
+    modesReported: true,
+    tracking: ['click', 'drag'],
+    encodings: ['sgr', 'urxvt', 'x10'],
+    focus: false,
+    paste: false,
+    deviceAttributes: [62, 22],
+    version: 'Term 1.0',
+  });
+});
+
+test('bestEncoding should prefer SGR and fall back to SGR without reported modes', () => {
+  // Arrange
+  const detector = new CapabilityDetector(() => {});
+  detector.handle({ type: 'mode-report', mode: 1015, state: 2, data: '' });
+
+  // Act & Assert
+  expect(bestEncoding(null)).toBe('sgr');
+  expect(bestEncoding(new CapabilityDetector(() => {}).result())).toBe('sgr');
+  expect(bestEncoding(detector.result())).toBe('urxvt');
+});
@@ -0,0 +1,99 @@
+import type { InputToken } from '../parser/ansiParser';
+import { ANSI_CODES, ANSI_QUERIES, ENCODING_MODES, TRACKING_MODES, type AnsiCodeName } from '../parser/constants';
+import type { MouseCapabilities, MouseEncoding, MouseTrackingMode } from '../types';
+
+// Best first; sgr-pixels is left out of `auto` since it changes what the coordinates mean
+const ENCODING_PREFERENCE: MouseEncoding[] = ['sgr-pixels', 'sgr', 'urxvt', 'utf8', 'x10'];
+const AUTO_ENCODINGS: MouseEncoding[] = ['sgr', 'urxvt', 'utf8', 'x10'];
+
+const TRACKING_LEVELS: MouseTrackingMode[] = ['click', 'drag', 'any'];
+
+// DECRQM states: 0 not recognized, 1 set, 2 reset, 3 permanently set, 4 permanently reset
+const SUPPORTED_STATES = [1, 2, 3];
+
+const QUERIED_MODES = Object.keys(ANSI_CODES) as AnsiCodeName[];
+
+/**
+ * Collects the replies to capability queries.
+ */
+class CapabilityDetector {
+  private modes = new Map<number, boolean>();
+  private deviceAttributes: number[] | null = null;
+  private version: string | null = null;
+
+  /**
+   * @param onDone Called once the device attributes reply arrives. Terminals answer queries in
+   * order, so every earlier reply has arrived by then.
+   */
+  constructor(private onDone: () => void) {}
+
+  /**
+   * Returns the queries to send, ending with the device attributes query.
+   * @returns {string} The queries.
+   */
+  public static queries(): string {
+    return (
+      QUERIED_MODES.map((name) => ANSI_QUERIES.modeStatus(ANSI_CODES[name].mode)).join('') +
+      ANSI_QUERIES.terminalVersion +
+      ANSI_QUERIES.deviceAttributes
+    );
+  }
+
+  /**
+   * Records a reply.
+   * @param token A token from the parser.
+   * @returns {boolean} True if the token was a reply to a capability query.
+   */
+  public handle(token: InputToken): boolean {
+    switch (token.type) {
+      case 'mode-report':
+        this.modes.set(token.mode, SUPPORTED_STATES.includes(token.state));
+        return true;
+      case 'terminal-version':
+        this.version = token.version;
+        return true;
+      case 'device-attributes':
+        this.deviceAttributes = token.attributes;
+        this.onDone();
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private supports(names: AnsiCodeName[]): boolean {
+    return names.every((name) => this.modes.get(ANSI_CODES[name].mode) === true);
+  }
+
+  /**
+   * Returns what the replies so far tell about the terminal.
+   * @returns {MouseCapabilities} The capabilities.
+   */
+  public result(): MouseCapabilities {
+    return {
+      responded: this.deviceAttributes !== null,
+      modesReported: this.modes.size > 0,
+      tracking: TRACKING_LEVELS.filter((tracking) => this.supports(TRACKING_MODES[tracking])),
+      encodings: ENCODING_PREFERENCE.filter((encoding) => this.supports(ENCODING_MODES[encoding])),
+      focus: this.supports(['focus']),
+      paste: this.supports(['bracketedPaste']),
+      deviceAttributes: this.deviceAttributes,
+      version: this.version,
+    };
+  }
+}
+
+/**
+ * Picks the encoding for `encoding: 'auto'`.
+ * Without reported modes there is nothing to go on, so the usual default is kept.
+ * @param capabilities The detected capabilities, if any.
+ * @returns {MouseEncoding} The best supported encoding.
+ */
+function bestEncoding(capabilities: MouseCapabilities | null): MouseEncoding {
+  if (!capabilities?.modesReported) {
+    return 'sgr';
+  }
+  return AUTO_ENCODINGS.find((encoding) => capabilities.encodings.includes(encoding)) ?? 'x10';
+}
+
+export { CapabilityDetector, bestEncoding };
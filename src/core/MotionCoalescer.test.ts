@@ -0,0 +1,127 @@
+import { expect, test } from 'bun:test';
+
+import type { MouseEvent, MouseEventAction } from '../types';
+
+import { MotionCoalescer } from './MotionCoalescer';
+
+function motionEvent(x: number, action: MouseEventAction = 'move'): MouseEvent {
+  return {
+    x,
+    y: 1,
+    button: 'none',
+    action,
+    shift: false,
+    alt: false,
+    ctrl: false,
+    raw: 35,
+    data: '',
+    timestamp: 0,
+    protocol: 'SGR',
+  };
+}
+
+test('MotionCoalescer should throttle to the maximum rate and keep the latest position', async () => {
+  // Arrange
+  let now = 1000;
+  const emitted: number[] = [];
+  const motion = new MotionCoalescer(
+    (event) => emitted.push(event.x),
+    (): number => now,
+    { maxRate: 100 },
+  );
+
+  // Act
+  motion.push(motionEvent(1));
+  motion.push(motionEvent(2));
+  motion.push(motionEvent(3));
+
+  // Assert
+  expect(emitted).toEqual([1]);
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  expect(emitted).toEqual([1, 3]);
+
+  now += 20;
+  motion.push(motionEvent(4));
+  expect(emitted).toEqual([1, 3, 4]);
+
+  // Cleanup
+  motion.cancel();
+});
+
+test('MotionCoalescer should coalesce per tick', async () => {
+  // Arrange
+  const emitted: number[] = [];
+  const motion = new MotionCoalescer(
+    (event) => emitted.push(event.x),
+    (): number => 0,
+    { strategy: 'tick' },
+  );
+
+  // Act
+  motion.push(motionEvent(1));
+  motion.push(motionEvent(2));
+
+  // Assert
+  expect(emitted).toEqual([]);
+  await new Promise((resolve) => setImmediate(resolve));
+  expect(emitted).toEqual([2]);
+});
+
+test('MotionCoalescer should coalesce per frame', async () => {
+  // Arrange
+  const emitted: number[] = [];
+  const motion = new MotionCoalescer(
+    (event) => emitted.push(event.x),
+    (): number => 0,
+    {
+      strategy: 'frame',
+      frameInterval: 10,
+    },
+  );
+
+  // Act
+  motion.push(motionEvent(1));
+  motion.push(motionEvent(2));
+  await new Promise((resolve) => setImmediate(resolve));
+
+  // Assert
+  expect(emitted).toEqual([]);
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  expect(emitted).toEqual([2]);
+});
+
+test('MotionCoalescer should not let a drag replace a move', () => {
+  // Arrange
+  const emitted: string[] = [];
+  const motion = new MotionCoalescer(
+    (event) => emitted.push(`${event.action} ${event.x}`),
+    (): number => 0,
+    { strategy: 'tick' },
+  );
+
+  // Act
+  motion.push(motionEvent(1));
+  motion.push(motionEvent(2, 'drag'));
+  motion.flush();
+
+  // Assert
+  expect(emitted).toEqual(['move 1', 'drag 2']);
+});
+
+test('MotionCoalescer.cancel should discard the held event', async () => {
+  // Arrange
+  const emitted: number[] = [];
+  const motion = new MotionCoalescer(
+    (event) => emitted.push(event.x),
+    (): number => 0,
+    { strategy: 'tick' },
+  );
+
+  // Act
+  motion.push(motionEvent(1));
+  motion.cancel();
+  await new Promise((resolve) => setImmediate(resolve));
+
+  // Assert
+  expect(emitted).toEqual([]);
+});
@@ -0,0 +1,96 @@
+import type { MotionOptions, MotionStrategy, MouseEvent } from '../types';
+
+/**
+ * Rate-limits `move` and `drag` events by holding back all but the latest position.
+ * The held event is emitted when its interval ends or when `flush()` is called.
+ */
+class MotionCoalescer {
+  private pending: MouseEvent | null = null;
+  private cancelScheduled: (() => void) | null = null;
+  private lastEmit = Number.NEGATIVE_INFINITY;
+  private readonly strategy: Exclude<MotionStrategy, 'none'>;
+  private readonly interval: number;
+
+  /**
+   * @param onMotion Called with each motion event that gets through.
+   * @param clock Returns the current time in milliseconds.
+   * @param options How to rate-limit the events.
+   */
+  constructor(
+    private onMotion: (event: MouseEvent) => void,
+    private clock: () => number,
+    { strategy = 'throttle', maxRate = 60, frameInterval = 16 }: MotionOptions = {},
+  ) {
+    this.strategy = strategy === 'none' ? 'throttle' : strategy;
+    this.interval = this.strategy === 'frame' ? frameInterval : 1000 / maxRate;
+  }
+
+  /**
+   * Adds a motion event, emitting it now or holding it until its interval ends.
+   * @param event The `move` or `drag` event.
+   */
+  public push(event: MouseEvent): void {
+    // A move and a drag are different gestures, so one never replaces the other
+    if (this.pending !== null && this.pending.action !== event.action) {
+      this.flush();
+    }
+
+    if (this.pending !== null) {
+      this.pending = event;
+      return;
+    }
+
+    if (this.strategy === 'throttle') {
+      const wait = this.lastEmit + this.interval - this.clock();
+      if (wait <= 0) {
+        this.emit(event);
+        return;
+      }
+      this.schedule(wait);
+    } else {
+      this.schedule(this.interval);
+    }
+    this.pending = event;
+  }
+
+  /**
+   * Emits the held event right away, if there is one.
+   */
+  public flush = (): void => {
+    this.cancelScheduled?.();
+    this.cancelScheduled = null;
+
+    const event = this.pending;
+    this.pending = null;
+    if (event !== null) {
+      this.emit(event);
+    }
+  };
+
+  /**
+   * Discards the held event without emitting it.
+   */
+  public cancel(): void {
+    this.cancelScheduled?.();
+    this.cancelScheduled = null;
+    this.pending = null;
+  }
+
+  private emit(event: MouseEvent): void {
+    this.lastEmit = this.clock();
+    this.onMotion(event);
+  }
+
+  private schedule(delay: number): void {
+    if (this.strategy === 'tick') {
+      const immediate = setImmediate(this.flush);
+      this.cancelScheduled = (): void => clearImmediate(immediate);
+    } else {
+      const timer = setTimeout(this.flush, delay);
+      timer.unref?.();
+      this.cancelScheduled = (): void => clearTimeout(timer);
+    }
+  }
+}
+
+export { MotionCoalescer };
@@ -2,47 +2,29 @@ import { EventEmitter } from 'node:events';
 
 import { expect, test, mock } from 'bun:test';
 
-import type { ReadableStreamWithEncoding } from '../types';
+import {
+  MouseAbortError,
+  MouseError,
+  MouseTimeoutError,
+  type MouseClickEvent,
+  type MouseDiagnostic,
+  type MouseDragEvent,
+  type MouseEvent,
+  type PasteEvent,
+  type ReadableStreamWithEncoding,
+  type WheelEvent,
+} from '../types';
 
 import { Mouse } from './Mouse';
+import { makeFakeOutputStream, makeFakeTTYStream } from './testHelpers';
 
-function makeFakeTTYStream(): ReadableStreamWithEncoding {
-  const fake = new EventEmitter() as ReadableStreamWithEncoding;
-  fake.isTTY = true;
-  fake.isRaw = false;
-  let encoding: BufferEncoding | null = null;
-
-  fake.setRawMode = (mode: boolean): ReadableStreamWithEncoding => {
-    fake.isRaw = mode;
-    return fake;
-  };
-
-  fake.setEncoding = (enc: BufferEncoding): ReadableStreamWithEncoding => {
-    encoding = enc;
-    return fake;
-  };
-
-  fake.readableEncoding = encoding;
-
-  fake.resume = (): ReadableStreamWithEncoding => fake;
-  fake.pause = (): ReadableStreamWithEncoding => fake;
-
-  // Preserve original EventEmitter methods for proper event handling
-  const originalOn = fake.on.bind(fake);
-  const originalOff = fake.off.bind(fake);
-
-  // biome-ignore lint/suspicious/noExplicitAny: original EventEmitter methods
-  fake.on = (event: string, listener: (...args: any[]) => void): ReadableStreamWithEncoding => {
-    originalOn(event, listener);
-    return fake;
-  };
-
-  fake.off = (event: string, listener: (...args: unknown[]) => void): ReadableStreamWithEncoding => {
-    originalOff(event, listener);
-    return fake;
-  };
+function nextMacrotask(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
 
-  return fake;
+function clickAt(stream: ReadableStreamWithEncoding, x: number, y: number, button = 0): void {
+  stream.emit('data', Buffer.from(`\x1b[<${button};${x};${y}M`));
+  stream.emit('data', Buffer.from(`\x1b[<${button};${x};${y}m`));
 }
 
 test('Mouse should be instantiable', () => {
@@ -159,6 +141,30 @@ test('Mouse eventsOf should yield mouse events', async () => {
   }
 });
 
+test('Mouse eventsOf should yield the payload type of synthesized events', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const clicks = mouse.eventsOf('click');
+
+  try {
+    mouse.enable();
+
+    // Act
+    const clickPromise = clicks.next();
+    stream.emit('data', Buffer.from('\x1b[<0;10;20M\x1b[<0;10;20m'));
+    const { value } = await clickPromise;
+
+    // Assert
+    expect(value.clickCount).toBe(1);
+    expect(value.x).toBe(10);
+  } finally {
+    // Cleanup
+    await clicks.return(undefined);
+    mouse.destroy();
+  }
+});
+
 test('Mouse stream should yield mouse events', async () => {
   // Arrange
   const stream = makeFakeTTYStream();
@@ -661,3 +667,1720 @@ test('Mouse.stream() should be cancellable with AbortSignal', async () => {
     mouse.destroy();
   }
 });
+
+test('Mouse should parse a sequence fed one byte at a time', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const pressEvent = '\x1b[<0;120;45M';
+
+  const eventPromise = new Promise<void>((resolve) => {
+    mouse.on('press', (event) => {
+      // Assert
+      expect(event.button).toBe('left');
+      expect(event.x).toBe(120);
+      expect(event.y).toBe(45);
+      resolve();
+    });
+  });
+
+  // Act
+  mouse.enable();
+  for (const byte of pressEvent) {
+    stream.emit('data', Buffer.from(byte));
+  }
+
+  await eventPromise;
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should parse an ESC sequence split across chunks', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const pressSpy = mock(() => {});
+  mouse.on('press', pressSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[M '));
+  stream.emit('data', Buffer.from('#4'));
+
+  // Assert
+  expect(pressSpy).toHaveBeenCalledTimes(1);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should discard an incomplete sequence after the sequence timeout', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { sequenceTimeout: 10 });
+  const pressSpy = mock(() => {});
+  mouse.on('press', pressSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<0;10'));
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  stream.emit('data', Buffer.from(';20M'));
+  stream.emit('data', Buffer.from('\x1b[<0;11;21M'));
+
+  // Assert
+  expect(pressSpy).toHaveBeenCalledTimes(1);
+  expect(pressSpy.mock.calls[0]).toMatchObject([{ x: 11, y: 21 }]);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should emit non-mouse input as data when passthrough is enabled', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { passthrough: true });
+  const received: string[] = [];
+
+  mouse.on('data', (data) => {
+    received.push(`data:${data}`);
+  });
+  mouse.on('press', (event) => {
+    received.push(`press:${event.x}`);
+  });
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('ab\x1b[<0;10;20Mcd\x1b[A'));
+
+  // Assert
+  expect(received).toEqual(['data:ab', 'press:10', 'data:cd\x1b[A']);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should pass a lone ESC through after the sequence timeout', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { passthrough: true, sequenceTimeout: 10 });
+  const dataSpy = mock((_data: string) => {});
+  mouse.on('data', dataSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b'));
+
+  // Assert
+  expect(dataSpy).not.toHaveBeenCalled();
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  expect(dataSpy).toHaveBeenCalledWith('\x1b');
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should not emit data when passthrough is disabled', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const dataSpy = mock((_data: string) => {});
+  mouse.on('data', dataSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('abc'));
+
+  // Assert
+  expect(dataSpy).not.toHaveBeenCalled();
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse enable should request any-motion tracking with SGR encoding by default', () => {
+  // Arrange
+  const output = makeFakeOutputStream();
+  const mouse = new Mouse(makeFakeTTYStream(), output.stream);
+
+  // Act
+  mouse.enable();
+
+  // Assert
+  expect(output.writes).toEqual(['\x1b[?1000h\x1b[?1002h\x1b[?1003h\x1b[?1006h']);
+  expect(mouse.getConfig()).toEqual({ tracking: 'any', encoding: 'sgr', focus: false, paste: false });
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse enable should only turn on the requested modes', () => {
+  // Arrange
+  const output = makeFakeOutputStream();
+  const mouse = new Mouse(makeFakeTTYStream(), output.stream);
+
+  // Act
+  mouse.enable({ tracking: 'click', encoding: 'urxvt' });
+
+  // Assert
+  expect(output.writes).toEqual(['\x1b[?1000h\x1b[?1015h']);
+  expect(mouse.getConfig()).toEqual({ tracking: 'click', encoding: 'urxvt', focus: false, paste: false });
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse disable should turn off exactly the modes that were turned on', () => {
+  // Arrange
+  const output = makeFakeOutputStream();
+  const mouse = new Mouse(makeFakeTTYStream(), output.stream);
+  mouse.enable({ tracking: 'drag', encoding: 'sgr-pixels' });
+
+  // Act
+  mouse.disable();
+
+  // Assert
+  expect(output.writes[1]).toBe('\x1b[?1016l\x1b[?1006l\x1b[?1002l\x1b[?1000l');
+  expect(mouse.getConfig()).toBeNull();
+});
+
+test('Mouse enable with x10 encoding should not request an extended encoding', () => {
+  // Arrange
+  const output = makeFakeOutputStream();
+  const mouse = new Mouse(makeFakeTTYStream(), output.stream);
+
+  // Act
+  mouse.enable({ encoding: 'x10' });
+
+  // Assert
+  expect(output.writes).toEqual(['\x1b[?1000h\x1b[?1002h\x1b[?1003h']);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should decode events with the encoding requested in enable', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const pressSpy = mock((_event: MouseEvent) => {});
+  mouse.on('press', pressSpy);
+
+  // Act
+  mouse.enable({ encoding: 'utf8' });
+  stream.emit('data', Buffer.from(`\x1b[M ${String.fromCharCode(300 + 32)}4`));
+
+  // Assert
+  expect(pressSpy).toHaveBeenCalledTimes(1);
+  expect(pressSpy.mock.calls[0]?.[0]).toMatchObject({ protocol: 'UTF8', x: 300, y: 20 });
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse enable with sgr-pixels should query the cell size when it is unknown', () => {
+  // Arrange
+  const output = makeFakeOutputStream();
+  const mouse = new Mouse(makeFakeTTYStream(), output.stream);
+
+  // Act
+  mouse.enable({ encoding: 'sgr-pixels' });
+
+  // Assert
+  expect(output.writes).toEqual(['\x1b[?1000h\x1b[?1002h\x1b[?1003h\x1b[?1006h\x1b[?1016h\x1b[16t']);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse enable with sgr-pixels should not query a cell size given in the options', () => {
+  // Arrange
+  const output = makeFakeOutputStream();
+  const mouse = new Mouse(makeFakeTTYStream(), output.stream, new EventEmitter(), {
+    cellSize: { width: 8, height: 16 },
+  });
+
+  // Act
+  mouse.enable({ encoding: 'sgr-pixels' });
+
+  // Assert
+  expect(output.writes[0]).not.toContain('\x1b[16t');
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should derive cell coordinates once the terminal reports its cell size', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream, new EventEmitter(), { passthrough: true });
+  const pressSpy = mock((_event: MouseEvent) => {});
+  const dataSpy = mock((_data: string) => {});
+  mouse.on('press', pressSpy);
+  mouse.on('data', dataSpy);
+
+  // Act
+  mouse.enable({ encoding: 'sgr-pixels' });
+  stream.emit('data', Buffer.from('\x1b[<0;805;412M'));
+  stream.emit('data', Buffer.from('\x1b[6;20;10t\x1b[<0;805;412M'));
+
+  // Assert
+  expect(pressSpy.mock.calls[0]?.[0]).toMatchObject({ protocol: 'SGR-Pixels', x: 805, y: 412 });
+  expect(pressSpy.mock.calls[1]?.[0]).toMatchObject({ protocol: 'SGR-Pixels', x: 81, y: 21, pixelX: 805 });
+  expect(mouse.getCellSize()).toEqual({ width: 10, height: 20 });
+  expect(dataSpy).not.toHaveBeenCalled();
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should emit a diagnostic for an ESC report it cannot decode', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const diagnosticSpy = mock((_diagnostic: MouseDiagnostic) => {});
+  const pressSpy = mock((_event: MouseEvent) => {});
+  mouse.on('diagnostic', diagnosticSpy);
+  mouse.on('press', pressSpy);
+
+  // Act
+  mouse.enable({ encoding: 'x10' });
+  stream.emit('data', Buffer.from([0x1b, 0x5b, 0x4d, 0x20, 0x00, 0x34]));
+
+  // Assert
+  expect(pressSpy).not.toHaveBeenCalled();
+  expect(diagnosticSpy).toHaveBeenCalledTimes(1);
+  expect(diagnosticSpy.mock.calls[0]?.[0]).toMatchObject({ code: 'coordinate-out-of-range', protocol: 'ESC' });
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should parse ESC reports past column 95', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const pressSpy = mock((_event: MouseEvent) => {});
+  mouse.on('press', pressSpy);
+
+  // Act
+  mouse.enable({ encoding: 'x10' });
+  stream.emit('data', Buffer.from([0x1b, 0x5b, 0x4d, 0x20, 0xc3, 0xa9]));
+
+  // Assert
+  expect(pressSpy).toHaveBeenCalledTimes(1);
+  expect(pressSpy.mock.calls[0]?.[0]).toMatchObject({ protocol: 'ESC', x: 163, y: 137 });
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should keep X10 report bytes that are not valid UTF-8', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream, new EventEmitter(), { passthrough: true });
+  const pressSpy = mock((_event: MouseEvent) => {});
+  const diagnosticSpy = mock(() => {});
+  const dataSpy = mock((_data: string) => {});
+  mouse.on('press', pressSpy);
+  mouse.on('diagnostic', diagnosticSpy);
+  mouse.on('data', dataSpy);
+
+  // Act
+  mouse.enable({ encoding: 'x10' });
+  // Decoded the way a real stream decodes it after setEncoding()
+  const encoding = stream.readableEncoding ?? 'utf8';
+  stream.emit('data', Buffer.from([0x1b, 0x5b, 0x4d, 0x20, 0x84, 0x21]).toString(encoding));
+  stream.emit('data', Buffer.from('é', 'utf8').toString(encoding));
+
+  // Assert
+  expect(encoding).toBe('latin1');
+  expect(diagnosticSpy).not.toHaveBeenCalled();
+  expect(pressSpy).toHaveBeenCalledTimes(1);
+  expect(pressSpy.mock.calls[0]?.[0]).toMatchObject({ protocol: 'ESC', x: 100, y: 1 });
+  expect(dataSpy).toHaveBeenCalledWith('é');
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should leave the input decoded as UTF-8 after disabling X10', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream);
+
+  // Act
+  mouse.enable({ encoding: 'x10' });
+  const whileEnabled = stream.readableEncoding;
+  mouse.disable();
+  const afterFirstDisable = stream.readableEncoding;
+  mouse.enable({ encoding: 'x10' });
+  mouse.disable();
+
+  // Assert
+  expect(whileEnabled).toBe('latin1');
+  expect(afterFirstDisable).toBe('utf8');
+  expect(stream.readableEncoding).toBe('utf8');
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should count repeated clicks and emit dblclick and tripleclick', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const received: string[] = [];
+  const record = (event: MouseEvent): void => {
+    received.push(`${event.action}:${(event as MouseClickEvent).clickCount}`);
+  };
+  mouse.on('click', record);
+  mouse.on('dblclick', record);
+  mouse.on('tripleclick', record);
+
+  // Act
+  mouse.enable();
+  clickAt(stream, 10, 20);
+  clickAt(stream, 10, 20);
+  clickAt(stream, 11, 20);
+  clickAt(stream, 11, 21);
+  await nextMacrotask();
+
+  // Assert
+  expect(received).toEqual(['click:1', 'click:2', 'dblclick:2', 'click:3', 'tripleclick:3', 'click:4']);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should restart the click count after the multi-click interval', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  let now = 0;
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), {
+    click: { multiClickInterval: 300 },
+    clock: (): number => now,
+  });
+  const clickCounts: number[] = [];
+  const dblclickSpy = mock(() => {});
+  mouse.on('click', (event) => clickCounts.push((event as MouseClickEvent).clickCount));
+  mouse.on('dblclick', dblclickSpy);
+
+  // Act
+  mouse.enable();
+  clickAt(stream, 10, 20);
+  now = 301;
+  clickAt(stream, 10, 20);
+  await nextMacrotask();
+
+  // Assert
+  expect(clickCounts).toEqual([1, 1]);
+  expect(dblclickSpy).not.toHaveBeenCalled();
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should restart the click count when clicks are too far apart or use another button', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { click: { multiClickDistance: 2 } });
+  const clickCounts: number[] = [];
+  mouse.on('click', (event) => clickCounts.push((event as MouseClickEvent).clickCount));
+
+  // Act
+  mouse.enable();
+  clickAt(stream, 10, 20);
+  clickAt(stream, 12, 20);
+  clickAt(stream, 15, 20);
+  clickAt(stream, 15, 20, 2);
+  await nextMacrotask();
+
+  // Assert
+  expect(clickCounts).toEqual([1, 2, 1, 1]);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should track pending presses per button', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const clicks: MouseEvent[] = [];
+  mouse.on('click', (event) => clicks.push(event));
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<0;10;20M')); // press left
+  stream.emit('data', Buffer.from('\x1b[<2;30;5M')); // press right
+  stream.emit('data', Buffer.from('\x1b[<0;10;20m')); // release left
+  stream.emit('data', Buffer.from('\x1b[<2;30;5m')); // release right
+  await nextMacrotask();
+
+  // Assert
+  expect(clicks.length).toBe(2);
+  expect(clicks[0]).toMatchObject({ button: 'left', x: 10, y: 20 });
+  expect(clicks[1]).toMatchObject({ button: 'right', x: 30, y: 5 });
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should not click when a release matches a different button than the last press', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const clicks: MouseEvent[] = [];
+  mouse.on('click', (event) => clicks.push(event));
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<0;10;20M')); // press left
+  stream.emit('data', Buffer.from('\x1b[<2;10;20M')); // press right
+  stream.emit('data', Buffer.from('\x1b[<0;40;20m')); // release left far away
+  stream.emit('data', Buffer.from('\x1b[<2;10;20m')); // release right in place
+  await nextMacrotask();
+
+  // Assert
+  expect(clicks.length).toBe(1);
+  expect(clicks[0]?.button).toBe('right');
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should match a legacy release to the most recent press', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const clicks: MouseEvent[] = [];
+  mouse.on('click', (event) => clicks.push(event));
+
+  // Act
+  mouse.enable({ encoding: 'x10' });
+  stream.emit('data', Buffer.from('\x1b[M #4')); // press left at 3,20
+  stream.emit('data', Buffer.from('\x1b[M"#4')); // press right at 3,20
+  stream.emit('data', Buffer.from('\x1b[M##4')); // release
+  stream.emit('data', Buffer.from('\x1b[M##4')); // release
+  await nextMacrotask();
+
+  // Assert
+  expect(clicks.map((event) => event.button)).toEqual(['right', 'left']);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should use the configured click tolerance', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { click: { tolerance: 5 } });
+  const clickSpy = mock(() => {});
+  mouse.on('click', clickSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<0;10;20M'));
+  stream.emit('data', Buffer.from('\x1b[<0;15;25m'));
+  stream.emit('data', Buffer.from('\x1b[<0;10;20M'));
+  stream.emit('data', Buffer.from('\x1b[<0;16;20m'));
+  await nextMacrotask();
+
+  // Assert
+  expect(clickSpy).toHaveBeenCalledTimes(1);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should not click when the button is held longer than the maximum duration', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  let now = 0;
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), {
+    click: { maxDuration: 200 },
+    clock: (): number => now,
+  });
+  const clickSpy = mock(() => {});
+  mouse.on('click', clickSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<0;10;20M'));
+  now = 201;
+  stream.emit('data', Buffer.from('\x1b[<0;10;20m'));
+  await nextMacrotask();
+
+  // Assert
+  expect(clickSpy).not.toHaveBeenCalled();
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should not synthesize clicks when click synthesis is disabled', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { click: { enabled: false } });
+  const clickSpy = mock(() => {});
+  const releaseSpy = mock(() => {});
+  mouse.on('click', clickSpy);
+  mouse.on('release', releaseSpy);
+
+  // Act
+  mouse.enable();
+  clickAt(stream, 10, 20);
+  await nextMacrotask();
+
+  // Assert
+  expect(releaseSpy).toHaveBeenCalledTimes(1);
+  expect(clickSpy).not.toHaveBeenCalled();
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should stamp events with the injected clock', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  let now = 1000;
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { clock: (): number => now });
+  const timestamps: number[] = [];
+  mouse.on('press', (event) => timestamps.push(event.timestamp));
+  mouse.on('release', (event) => timestamps.push(event.timestamp));
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<0;10;20M'));
+  now = 1042.5;
+  stream.emit('data', Buffer.from('\x1b[<0;10;20m'));
+
+  // Assert
+  expect(timestamps).toEqual([1000, 1042.5]);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should stamp events with a monotonic timestamp by default', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const timestamps: number[] = [];
+  mouse.on('move', (event) => timestamps.push(event.timestamp));
+
+  // Act
+  mouse.enable();
+  const before = performance.now();
+  stream.emit('data', Buffer.from('\x1b[<35;10;20M'));
+  stream.emit('data', Buffer.from('\x1b[<35;11;20M'));
+  const after = performance.now();
+
+  // Assert
+  expect(timestamps.length).toBe(2);
+  expect(timestamps[0]).toBeGreaterThanOrEqual(before);
+  expect(timestamps[1]).toBeGreaterThanOrEqual(timestamps[0] ?? 0);
+  expect(timestamps[1]).toBeLessThanOrEqual(after);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should emit dragstart, dragmove and dragend with origin and delta', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const received: string[] = [];
+  const record = (event: MouseEvent): void => {
+    const drag = event as MouseDragEvent;
+    received.push(`${drag.action}:${drag.startX},${drag.startY}:${drag.deltaX},${drag.deltaY}`);
+  };
+  mouse.on('dragstart', record);
+  mouse.on('dragmove', record);
+  mouse.on('dragend', record);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<0;10;20M'));
+  stream.emit('data', Buffer.from('\x1b[<32;11;20M'));
+  stream.emit('data', Buffer.from('\x1b[<32;15;22M'));
+  stream.emit('data', Buffer.from('\x1b[<0;15;22m'));
+
+  // Assert
+  expect(received).toEqual(['dragstart:10,20:1,0', 'dragmove:10,20:1,0', 'dragmove:10,20:5,2', 'dragend:10,20:5,2']);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should only start a drag once the threshold is reached', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { drag: { threshold: 3 } });
+  const dragstartSpy = mock((_event: MouseEvent) => {});
+  const dragendSpy = mock((_event: MouseEvent) => {});
+  mouse.on('dragstart', dragstartSpy);
+  mouse.on('dragend', dragendSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<0;10;20M'));
+  stream.emit('data', Buffer.from('\x1b[<32;12;21M'));
+  stream.emit('data', Buffer.from('\x1b[<0;12;21m'));
+
+  // Assert
+  expect(dragstartSpy).not.toHaveBeenCalled();
+  expect(dragendSpy).not.toHaveBeenCalled();
+
+  // Act
+  stream.emit('data', Buffer.from('\x1b[<0;10;20M'));
+  stream.emit('data', Buffer.from('\x1b[<32;10;23M'));
+
+  // Assert
+  expect(dragstartSpy).toHaveBeenCalledTimes(1);
+  expect(dragstartSpy.mock.calls[0]?.[0]).toMatchObject({ deltaX: 0, deltaY: 3 });
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should start a drag at the first drag event when the press was missed', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const dragmoveSpy = mock((_event: MouseEvent) => {});
+  mouse.on('dragmove', dragmoveSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<32;10;20M'));
+  stream.emit('data', Buffer.from('\x1b[<32;12;20M'));
+
+  // Assert
+  expect(dragmoveSpy).toHaveBeenCalledTimes(1);
+  expect(dragmoveSpy.mock.calls[0]?.[0]).toMatchObject({ startX: 10, startY: 20, deltaX: 2, deltaY: 0 });
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should keep a started drag when another button is pressed and released', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const log: string[] = [];
+  mouse.on('dragstart', (event) => log.push(`dragstart:${event.button}:${event.startX}`));
+  mouse.on('dragend', (event) => log.push(`dragend:${event.button}:${event.startX}`));
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<0;10;20M\x1b[<32;12;20M'));
+  stream.emit('data', Buffer.from('\x1b[<2;12;20M\x1b[<2;12;20m'));
+  stream.emit('data', Buffer.from('\x1b[<32;14;20M\x1b[<0;14;20m'));
+
+  // Assert
+  expect(log).toEqual(['dragstart:left:10', 'dragend:left:10']);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse disable should cancel a pending drag without emitting dragend', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const dragendSpy = mock((_event: MouseEvent) => {});
+  mouse.on('dragend', dragendSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<0;10;20M'));
+  stream.emit('data', Buffer.from('\x1b[<32;15;20M'));
+  mouse.disable();
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<0;15;20m'));
+
+  // Assert
+  expect(dragendSpy).not.toHaveBeenCalled();
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should keep every repeated report by default', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const wheelSpy = mock((_event: MouseEvent) => {});
+  const moveSpy = mock((_event: MouseEvent) => {});
+  mouse.on('wheel', wheelSpy);
+  mouse.on('move', moveSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<65;10;20M'.repeat(3)));
+  stream.emit('data', Buffer.from('\x1b[<35;10;20M'.repeat(2)));
+
+  // Assert
+  expect(wheelSpy).toHaveBeenCalledTimes(3);
+  expect(moveSpy).toHaveBeenCalledTimes(2);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse with dedupe enabled should collapse repeated motion only', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { dedupe: true });
+  const wheelSpy = mock((_event: MouseEvent) => {});
+  const moveSpy = mock((_event: MouseEvent) => {});
+  const pressSpy = mock((_event: MouseEvent) => {});
+  mouse.on('wheel', wheelSpy);
+  mouse.on('move', moveSpy);
+  mouse.on('press', pressSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<35;10;20M'.repeat(2)));
+  stream.emit('data', Buffer.from('\x1b[<35;10;20M'));
+  stream.emit('data', Buffer.from('\x1b[<65;10;20M'.repeat(3)));
+  stream.emit('data', Buffer.from('\x1b[<0;10;20M\x1b[<0;10;20M'));
+
+  // Assert
+  expect(moveSpy).toHaveBeenCalledTimes(1);
+  expect(wheelSpy).toHaveBeenCalledTimes(3);
+  expect(pressSpy).toHaveBeenCalledTimes(2);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should accept a custom dedupe policy', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { dedupe: { wheel: true } });
+  const wheelSpy = mock((_event: MouseEvent) => {});
+  const moveSpy = mock((_event: MouseEvent) => {});
+  mouse.on('wheel', wheelSpy);
+  mouse.on('move', moveSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<65;10;20M'.repeat(3)));
+  stream.emit('data', Buffer.from('\x1b[<35;10;20M'.repeat(2)));
+
+  // Assert
+  expect(wheelSpy).toHaveBeenCalledTimes(1);
+  expect(moveSpy).toHaveBeenCalledTimes(2);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse with wheel enabled should emit a scroll event per burst', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { wheel: { enabled: true, window: 10 } });
+  const wheelSpy = mock((_event: MouseEvent) => {});
+  const scrollSpy = mock((_event: MouseEvent) => {});
+  mouse.on('wheel', wheelSpy);
+  mouse.on('scroll', scrollSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<65;10;20M\x1b[<65;10;20M'));
+  stream.emit('data', Buffer.from('\x1b[<65;10;20M'));
+  await new Promise((resolve) => setTimeout(resolve, 50));
+
+  // Assert
+  expect(wheelSpy).toHaveBeenCalledTimes(3);
+  expect(scrollSpy).toHaveBeenCalledTimes(1);
+  expect(scrollSpy.mock.calls[0]?.[0]).toMatchObject({ action: 'scroll', deltaX: 0, deltaY: 3, notches: 3 });
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should not emit scroll events unless wheel is enabled', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream);
+  const scrollSpy = mock((_event: MouseEvent) => {});
+  mouse.on('scroll', scrollSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<65;10;20M'));
+  await new Promise((resolve) => setTimeout(resolve, 100));
+
+  // Assert
+  expect(scrollSpy).not.toHaveBeenCalled();
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should emit an error when a scroll listener throws', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { wheel: { enabled: true, window: 10 } });
+  const error = new Error('listener failed');
+  const errorSpy = mock((_error: MouseError) => {});
+  mouse.on('scroll', () => {
+    throw error;
+  });
+  mouse.on('error', errorSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<65;10;20M'));
+  await new Promise((resolve) => setTimeout(resolve, 50));
+
+  // Assert
+  expect(errorSpy).toHaveBeenCalledTimes(1);
+  expect(errorSpy.mock.calls[0]?.[0]).toBeInstanceOf(MouseError);
+  expect(errorSpy.mock.calls[0]?.[0].message).toBe('listener failed');
+  expect(errorSpy.mock.calls[0]?.[0].originalError).toBe(error);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse with motion coalescing should emit the last position before a release', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { motion: { strategy: 'frame' } });
+  const log: string[] = [];
+  for (const action of ['press', 'drag', 'release', 'wheel'] as const) {
+    mouse.on(action, (event) => log.push(`${action} ${event.x}`));
+  }
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<0;10;20M'));
+  stream.emit('data', Buffer.from('\x1b[<32;11;20M\x1b[<32;12;20M\x1b[<32;13;20M'));
+  stream.emit('data', Buffer.from('\x1b[<0;13;20m\x1b[<65;13;20M'));
+  await new Promise((resolve) => setTimeout(resolve, 50));
+
+  // Assert
+  expect(log).toEqual(['press 10', 'drag 13', 'release 13', 'wheel 13']);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse with motion coalescing should emit held motion after its interval', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { motion: { strategy: 'tick' } });
+  const moveSpy = mock((_event: MouseEvent) => {});
+  mouse.on('move', moveSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<35;11;20M'));
+  stream.emit('data', Buffer.from('\x1b[<35;12;20M'));
+
+  // Assert
+  expect(moveSpy).not.toHaveBeenCalled();
+  await new Promise((resolve) => setImmediate(resolve));
+  expect(moveSpy).toHaveBeenCalledTimes(1);
+  expect(moveSpy.mock.calls[0]?.[0]?.x).toBe(12);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse with safety hooks should disable itself when the process exits', () => {
+  // Arrange
+  const proc = Object.assign(new EventEmitter(), { pid: 1, kill: (): boolean => true }) as unknown as NodeJS.Process;
+  const stream = makeFakeTTYStream();
+  const { stream: output, writes } = makeFakeOutputStream();
+  const mice = [
+    new Mouse(stream, output, new EventEmitter(), { safetyHooks: true, process: proc }),
+    new Mouse(makeFakeTTYStream(), output, new EventEmitter(), { safetyHooks: true, process: proc }),
+  ];
+
+  // Act
+  for (const mouse of mice) {
+    mouse.enable();
+  }
+  proc.emit('exit', 0);
+
+  // Assert
+  expect(mice.map((mouse) => mouse.isEnabled())).toEqual([false, false]);
+  expect(stream.isRaw).toBe(false);
+  expect(writes.at(-1)).toBe('\x1b[?1006l\x1b[?1003l\x1b[?1002l\x1b[?1000l');
+  expect(proc.listenerCount('exit')).toBe(0);
+});
+
+test('Mouse with safety hooks should restore a terminal shared with an instance without them', () => {
+  // Arrange
+  const proc = Object.assign(new EventEmitter(), { pid: 1, kill: (): boolean => true }) as unknown as NodeJS.Process;
+  const stream = makeFakeTTYStream();
+  const { stream: output, writes } = makeFakeOutputStream();
+  const guarded = new Mouse(stream, output, new EventEmitter(), { safetyHooks: true, process: proc });
+  const plain = new Mouse(stream, output);
+  guarded.enable({ tracking: 'click' });
+  plain.enable({ tracking: 'any', focus: true });
+
+  // Act
+  proc.emit('exit', 0);
+
+  // Assert
+  expect(stream.isRaw).toBe(false);
+  expect(stream.listenerCount('data')).toBe(0);
+  expect(writes.at(-1)).toBe('\x1b[?1004l\x1b[?1006l\x1b[?1003l\x1b[?1002l\x1b[?1000l');
+
+  // Cleanup
+  plain.destroy();
+  guarded.destroy();
+});
+
+test('Mouse should remove its safety hooks on destroy', () => {
+  // Arrange
+  const proc = Object.assign(new EventEmitter(), { pid: 1, kill: (): boolean => true }) as unknown as NodeJS.Process;
+  const mouse = new Mouse(makeFakeTTYStream(), makeFakeOutputStream().stream, new EventEmitter(), {
+    safetyHooks: true,
+    process: proc,
+  });
+
+  // Act
+  mouse.enable();
+  const listenersWhileEnabled = proc.listenerCount('SIGINT');
+  mouse.destroy();
+
+  // Assert
+  expect(listenersWhileEnabled).toBe(1);
+  expect(proc.listenerCount('SIGINT')).toBe(0);
+  expect(proc.listenerCount('unhandledRejection')).toBe(0);
+});
+
+test('Mouse should not install safety hooks unless asked to', () => {
+  // Arrange
+  const proc = Object.assign(new EventEmitter(), { pid: 1, kill: (): boolean => true }) as unknown as NodeJS.Process;
+  const mouse = new Mouse(makeFakeTTYStream(), makeFakeOutputStream().stream, new EventEmitter(), { process: proc });
+
+  // Act
+  mouse.enable();
+
+  // Assert
+  expect(proc.eventNames()).toEqual([]);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse.suspend and resume should restore and re-apply the terminal state', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const { stream: output, writes } = makeFakeOutputStream();
+  const mouse = new Mouse(stream, output);
+  const pressSpy = mock((_event: MouseEvent) => {});
+  mouse.on('press', pressSpy);
+  mouse.enable({ tracking: 'click', encoding: 'urxvt' });
+
+  // Act
+  mouse.suspend();
+  const whileSuspended = { enabled: mouse.isEnabled(), suspended: mouse.isSuspended(), raw: stream.isRaw };
+  stream.emit('data', Buffer.from('\x1b[32;10;20M'));
+  mouse.resume();
+  stream.emit('data', Buffer.from('\x1b[32;10;20M'));
+
+  // Assert
+  expect(whileSuspended).toEqual({ enabled: false, suspended: true, raw: false });
+  expect(mouse.isSuspended()).toBe(false);
+  expect(mouse.getConfig()).toEqual({ tracking: 'click', encoding: 'urxvt', focus: false, paste: false });
+  expect(stream.isRaw).toBe(true);
+  expect(writes).toEqual(['\x1b[?1000h\x1b[?1015h', '\x1b[?1015l\x1b[?1000l', '\x1b[?1000h\x1b[?1015h']);
+  expect(pressSpy).toHaveBeenCalledTimes(1);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse.withSuspended should give back a terminal shared with another enabled instance', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const { stream: output, writes } = makeFakeOutputStream();
+  const editorLauncher = new Mouse(stream, output);
+  const statusBar = new Mouse(stream, output);
+  const pressSpy = mock((_event: MouseEvent) => {});
+  statusBar.on('press', pressSpy);
+  editorLauncher.enable({ tracking: 'click' });
+  statusBar.enable({ tracking: 'any' });
+  writes.length = 0;
+  let inside: { raw: boolean | undefined; listeners: number; writes: string[] } | undefined;
+
+  // Act
+  await editorLauncher.withSuspended(() => {
+    stream.emit('data', Buffer.from('\x1b[<0;10;20M'));
+    inside = { raw: stream.isRaw, listeners: stream.listenerCount('data'), writes: [...writes] };
+  });
+  stream.emit('data', Buffer.from('\x1b[<0;10;20M'));
+
+  // Assert
+  expect(inside).toEqual({ raw: false, listeners: 0, writes: ['\x1b[?1006l\x1b[?1003l\x1b[?1002l\x1b[?1000l'] });
+  expect(statusBar.isEnabled()).toBe(true);
+  expect(stream.isRaw).toBe(true);
+  expect(writes.slice(1)).toEqual(['\x1b[?1000h\x1b[?1002h\x1b[?1003h\x1b[?1006h']);
+  expect(pressSpy).toHaveBeenCalledTimes(1);
+
+  // Cleanup
+  statusBar.destroy();
+  editorLauncher.destroy();
+});
+
+test('Mouse.suspend should keep the terminal given back until every suspended instance resumes', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const output = makeFakeOutputStream().stream;
+  const mice = [new Mouse(stream, output), new Mouse(stream, output)];
+  for (const mouse of mice) {
+    mouse.enable();
+  }
+
+  // Act
+  for (const mouse of mice) {
+    mouse.suspend();
+  }
+  mice[0]?.resume();
+  const rawAfterFirstResume = stream.isRaw;
+  mice[1]?.resume();
+
+  // Assert
+  expect(rawAfterFirstResume).toBe(false);
+  expect(stream.isRaw).toBe(true);
+  expect(mice.map((mouse) => mouse.isEnabled())).toEqual([true, true]);
+
+  // Cleanup
+  for (const mouse of mice) {
+    mouse.destroy();
+  }
+});
+
+test('Mouse.disable should forget a suspended configuration', () => {
+  // Arrange
+  const mouse = new Mouse(makeFakeTTYStream(), makeFakeOutputStream().stream);
+  mouse.enable();
+
+  // Act
+  mouse.suspend();
+  mouse.disable();
+  mouse.resume();
+
+  // Assert
+  expect(mouse.isEnabled()).toBe(false);
+  expect(mouse.isSuspended()).toBe(false);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse.withSuspended should resume after the function settles', async () => {
+  // Arrange
+  const mouse = new Mouse(makeFakeTTYStream(), makeFakeOutputStream().stream);
+  mouse.enable();
+  let enabledInside: boolean | undefined;
+
+  // Act
+  const result = await mouse.withSuspended(async () => {
+    enabledInside = mouse.isEnabled();
+    return 42;
+  });
+  const failure = mouse.withSuspended(() => {
+    throw new Error('editor failed');
+  });
+
+  // Assert
+  expect(result).toBe(42);
+  expect(enabledInside).toBe(false);
+  await expect(failure).rejects.toThrow('editor failed');
+  expect(mouse.isEnabled()).toBe(true);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse.withSuspended should leave a disabled mouse disabled', async () => {
+  // Arrange
+  const mouse = new Mouse(makeFakeTTYStream(), makeFakeOutputStream().stream);
+
+  // Act
+  await mouse.withSuspended(() => {});
+
+  // Assert
+  expect(mouse.isEnabled()).toBe(false);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse with job control should suspend on SIGTSTP and resume on SIGCONT', () => {
+  // Arrange
+  const kill = mock((_pid: number, _signal?: string): boolean => true);
+  const proc = Object.assign(new EventEmitter(), { pid: 7, kill }) as unknown as NodeJS.Process;
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream, new EventEmitter(), {
+    jobControl: true,
+    process: proc,
+  });
+  mouse.enable();
+
+  // Act
+  proc.emit('SIGTSTP', 'SIGTSTP');
+  const suspended = { enabled: mouse.isEnabled(), raw: stream.isRaw };
+  proc.emit('SIGCONT', 'SIGCONT');
+
+  // Assert
+  expect(suspended).toEqual({ enabled: false, raw: false });
+  expect(kill).toHaveBeenCalledWith(7, 'SIGTSTP');
+  expect(mouse.isEnabled()).toBe(true);
+  expect(proc.listenerCount('SIGTSTP')).toBe(1);
+
+  // Cleanup
+  mouse.destroy();
+  expect(proc.listenerCount('SIGTSTP')).toBe(0);
+  expect(proc.listenerCount('SIGCONT')).toBe(0);
+});
+
+test('Mouse instances on the same streams should share the terminal until the last one is disabled', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const { stream: output, writes } = makeFakeOutputStream();
+  const statusBar = new Mouse(stream, output);
+  const view = new Mouse(stream, output);
+  const statusBarPress = mock((_event: MouseEvent) => {});
+  const statusBarMove = mock((_event: MouseEvent) => {});
+  const viewMove = mock((_event: MouseEvent) => {});
+  statusBar.on('press', statusBarPress);
+  statusBar.on('move', statusBarMove);
+  view.on('move', viewMove);
+
+  // Act
+  statusBar.enable({ tracking: 'click' });
+  view.enable({ tracking: 'any' });
+  statusBar.disable();
+  const rawAfterFirstDisable = stream.isRaw;
+  statusBar.enable({ tracking: 'click' });
+  stream.emit('data', Buffer.from('\x1b[<35;10;20M\x1b[<0;10;20M'));
+  view.disable();
+  statusBar.disable();
+
+  // Assert
+  expect(rawAfterFirstDisable).toBe(true);
+  expect(stream.isRaw).toBe(false);
+  expect(statusBarPress).toHaveBeenCalledTimes(1);
+  expect(statusBarMove).not.toHaveBeenCalled();
+  expect(viewMove).toHaveBeenCalledTimes(1);
+  expect(writes).toEqual([
+    '\x1b[?1000h\x1b[?1006h',
+    '\x1b[?1002h\x1b[?1003h',
+    '\x1b[?1003l\x1b[?1002l',
+    '\x1b[?1006l\x1b[?1000l',
+  ]);
+
+  // Cleanup
+  statusBar.destroy();
+  view.destroy();
+});
+
+test('Mouse.detectCapabilities should read the replies without leaking them', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const { stream: output, writes } = makeFakeOutputStream();
+  const mouse = new Mouse(stream, output, new EventEmitter(), { passthrough: true });
+  const dataSpy = mock((_data: string) => {});
+  mouse.on('data', dataSpy);
+
+  // Act
+  const detection = mouse.detectCapabilities();
+  const rawWhileDetecting = stream.isRaw;
+  stream.emit('data', Buffer.from('\x1b[?1000;2$y\x1b[?1002;2$y\x1b[?1003;2$y\x1b[?1015;2$y'));
+  stream.emit('data', Buffer.from('\x1bP>|xterm(390)\x1b\\x\x1b[?65;1c'));
+  const capabilities = await detection;
+
+  // Assert
+  expect(rawWhileDetecting).toBe(true);
+  expect(stream.isRaw).toBe(false);
+  expect(writes[0]).toContain('\x1b[?1006$p');
+  expect(capabilities).toMatchObject({
+    responded: true,
+    tracking: ['click', 'drag', 'any'],
+    encodings: ['urxvt', 'x10'],
+    version: 'xterm(390)',
+  });
+  expect(dataSpy.mock.calls).toEqual([['x']]);
+
+  // Act
+  mouse.enable({ encoding: 'auto' });
+
+  // Assert
+  expect(mouse.getConfig()).toEqual({ tracking: 'any', encoding: 'urxvt', focus: false, paste: false });
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse.detectCapabilities replies should not leak to other instances on the same terminal', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const output = makeFakeOutputStream().stream;
+  const detecting = new Mouse(stream, output);
+  const other = new Mouse(stream, output, new EventEmitter(), { passthrough: true });
+  const dataSpy = mock((_data: string) => {});
+  other.on('data', dataSpy);
+  other.enable();
+
+  // Act
+  const detection = detecting.detectCapabilities();
+  stream.emit('data', Buffer.from('\x1b[?1000;2$y\x1bP>|xterm(390)\x1b\\x\x1b[?65;1c'));
+  const capabilities = await detection;
+  stream.emit('data', Buffer.from('\x1b[?65;1c'));
+
+  // Assert
+  expect(capabilities).toMatchObject({ responded: true, version: 'xterm(390)' });
+  expect(dataSpy.mock.calls).toEqual([['x'], ['\x1b[?65;1c']]);
+
+  // Cleanup
+  other.destroy();
+  detecting.destroy();
+});
+
+test('Mouse.detectCapabilities should give up after the timeout', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream);
+
+  // Act
+  const capabilities = await mouse.detectCapabilities({ timeout: 10 });
+  mouse.enable({ encoding: 'auto' });
+
+  // Assert
+  expect(capabilities).toMatchObject({ responded: false, modesReported: false, version: null });
+  expect(mouse.getConfig()?.encoding).toBe('sgr');
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should pass replies it did not ask for through', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, process.stdout, new EventEmitter(), { passthrough: true });
+  const dataSpy = mock((_data: string) => {});
+  mouse.on('data', dataSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[?62;22c'));
+
+  // Assert
+  expect(dataSpy).toHaveBeenCalledWith('\x1b[?62;22c');
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should emit focus and blur events when enabled with focus', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const { stream: output, writes } = makeFakeOutputStream();
+  const mouse = new Mouse(stream, output);
+  const log: string[] = [];
+  mouse.on('focus', (event) => log.push(`${event.action} ${event.data}`));
+  mouse.on('blur', (event) => log.push(`${event.action} ${event.data}`));
+
+  // Act
+  mouse.enable({ focus: true, paste: false });
+  stream.emit('data', Buffer.from('\x1b[O\x1b[I'));
+  mouse.disable();
+
+  // Assert
+  expect(log).toEqual(['blur \x1b[O', 'focus \x1b[I']);
+  expect(writes[0]).toEndWith('\x1b[?1004h');
+  expect(writes[1]).toStartWith('\x1b[?1004l');
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should not emit focus events unless enabled with focus', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream);
+  const focusSpy = mock(() => {});
+  mouse.on('blur', focusSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[O'));
+
+  // Assert
+  expect(focusSpy).not.toHaveBeenCalled();
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should pass focus reports it did not ask for through as data', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream, new EventEmitter(), { passthrough: true });
+  const blurSpy = mock(() => {});
+  const dataSpy = mock((_data: string) => {});
+  mouse.on('blur', blurSpy);
+  mouse.on('data', dataSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[O'));
+
+  // Assert
+  expect(blurSpy).not.toHaveBeenCalled();
+  expect(dataSpy).toHaveBeenCalledWith('\x1b[O');
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should forget pressed buttons on blur', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream);
+  const clickSpy = mock(() => {});
+  const dragEndSpy = mock(() => {});
+  mouse.on('click', clickSpy);
+  mouse.on('dragend', dragEndSpy);
+  mouse.enable({ focus: true, paste: false });
+
+  // Act
+  stream.emit('data', Buffer.from('\x1b[<0;10;10M\x1b[<32;12;10M\x1b[O'));
+  stream.emit('data', Buffer.from('\x1b[I\x1b[<0;10;10m'));
+
+  // Assert
+  expect(clickSpy).not.toHaveBeenCalled();
+  expect(dragEndSpy).not.toHaveBeenCalled();
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse.eventsOf and Mouse.stream should yield focus events', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream);
+  const blurs = mouse.eventsOf('blur');
+  const all = mouse.stream();
+
+  try {
+    mouse.enable({ focus: true, paste: false });
+
+    // Act
+    const blurPromise = blurs.next();
+    const allPromise = all.next();
+    stream.emit('data', Buffer.from('\x1b[O'));
+
+    // Assert
+    expect((await blurPromise).value).toMatchObject({ action: 'blur' });
+    expect((await allPromise).value).toMatchObject({ type: 'blur', event: { action: 'blur' } });
+  } finally {
+    // Cleanup
+    await blurs.return(undefined);
+    await all.return(undefined);
+    mouse.destroy();
+  }
+});
+
+test('Mouse should emit pasted text as a paste event when enabled with paste', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const { stream: output, writes } = makeFakeOutputStream();
+  const mouse = new Mouse(stream, output);
+  const pasteSpy = mock((_event: PasteEvent) => {});
+  const pressSpy = mock(() => {});
+  mouse.on('paste', pasteSpy);
+  mouse.on('press', pressSpy);
+
+  // Act
+  mouse.enable({ paste: true });
+  stream.emit('data', Buffer.from('\x1b[200~click \x1b[<0;5;'));
+  stream.emit('data', Buffer.from('5M here\x1b[201~'));
+
+  // Assert
+  expect(pressSpy).not.toHaveBeenCalled();
+  expect(pasteSpy).toHaveBeenCalledTimes(1);
+  expect(pasteSpy.mock.calls[0]?.[0].text).toBe('click \x1b[<0;5;5M here');
+  expect(writes[0]).toEndWith('\x1b[?2004h');
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should emit a quiet paste in parts after the paste timeout without parsing the rest', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream, new EventEmitter(), {
+    sequenceTimeout: 10,
+    pasteTimeout: 30,
+  });
+  const pasteSpy = mock((_event: PasteEvent) => {});
+  const pressSpy = mock(() => {});
+  mouse.on('paste', pasteSpy);
+  mouse.on('press', pressSpy);
+
+  // Act
+  mouse.enable({ paste: true });
+  stream.emit('data', Buffer.from('\x1b[200~slow '));
+  await new Promise((resolve) => setTimeout(resolve, 15));
+  const pastedEarly = pasteSpy.mock.calls.length;
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  stream.emit('data', Buffer.from('\x1b[<0;5;5Mpaste\x1b[201~'));
+  stream.emit('data', Buffer.from('\x1b[<0;5;5M'));
+
+  // Assert
+  expect(pastedEarly).toBe(0);
+  expect(pasteSpy.mock.calls.map(([event]) => [event.text, event.partial])).toEqual([
+    ['slow ', true],
+    ['\x1b[<0;5;5Mpaste', undefined],
+  ]);
+  expect(pressSpy).toHaveBeenCalledTimes(1);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse should pass a paste it did not ask for through as data', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream, new EventEmitter(), { passthrough: true });
+  const pasteSpy = mock(() => {});
+  const dataSpy = mock((_data: string) => {});
+  mouse.on('paste', pasteSpy);
+  mouse.on('data', dataSpy);
+
+  // Act
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[200~text\x1b[201~'));
+
+  // Assert
+  expect(pasteSpy).not.toHaveBeenCalled();
+  expect(dataSpy).toHaveBeenCalledWith('\x1b[200~text\x1b[201~');
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse listener methods should chain and pass typed payloads', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream);
+  const log: string[] = [];
+  const onWheel = (event: WheelEvent): void => {
+    log.push(`wheel ${event.button}`);
+  };
+
+  // Act
+  const result = mouse
+    .on('wheel', onWheel)
+    .on('click', (event) => log.push(`click ${event.clickCount}`))
+    .once('press', (event) => log.push(`once ${event.button}`))
+    .prependListener('press', () => log.push('first'));
+  mouse.enable();
+  stream.emit('data', Buffer.from('\x1b[<64;1;1M\x1b[<0;1;1M\x1b[<0;1;1m\x1b[<0;1;1M'));
+  await nextMacrotask();
+  mouse.off('wheel', onWheel);
+  stream.emit('data', Buffer.from('\x1b[<64;1;1M'));
+
+  // Assert
+  expect(result).toBe(mouse);
+  expect(log).toEqual(['wheel wheel-up', 'first', 'once left', 'first', 'click 1']);
+  expect(mouse.listenerCount('press')).toBe(1);
+  expect(mouse.listenerCount('wheel')).toBe(0);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse.waitFor should resolve with the first event that passes the filter', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream);
+  mouse.enable();
+
+  // Act
+  const press = mouse.waitFor('press', { filter: (event) => event.x > 5, timeout: 1000 });
+  stream.emit('data', Buffer.from('\x1b[<0;2;2M\x1b[<0;8;2M'));
+
+  // Assert
+  expect((await press).x).toBe(8);
+  expect(mouse.listenerCount('press')).toBe(0);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse.nextClick should reject with a MouseTimeoutError after the timeout', async () => {
+  // Arrange
+  const mouse = new Mouse(makeFakeTTYStream(), makeFakeOutputStream().stream);
+
+  // Act
+  const result = mouse.nextClick({ timeout: 10 }).catch((err: unknown) => err);
+
+  // Assert
+  const error = await result;
+  expect(error).toBeInstanceOf(MouseTimeoutError);
+  expect(error).toBeInstanceOf(MouseError);
+  expect((error as MouseTimeoutError).timeout).toBe(10);
+  expect(mouse.listenerCount('click')).toBe(0);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse.nextPress should reject with a MouseAbortError when aborted', async () => {
+  // Arrange
+  const mouse = new Mouse(makeFakeTTYStream(), makeFakeOutputStream().stream);
+  const controller = new AbortController();
+  const aborted = AbortSignal.abort();
+
+  // Act
+  const result = mouse.nextPress({ signal: controller.signal }).catch((err: unknown) => err);
+  controller.abort();
+
+  // Assert
+  expect(await result).toBeInstanceOf(MouseAbortError);
+  await expect(mouse.nextPress({ signal: aborted })).rejects.toBeInstanceOf(MouseAbortError);
+  expect(mouse.listenerCount('press')).toBe(0);
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('Mouse.stream should cap the queue and report dropped events', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream);
+  const onDrop = mock((_dropped: number) => {});
+  const iterator = mouse.stream({ maxQueue: 5000, onDrop });
+
+  try {
+    mouse.enable();
+    const first = iterator.next();
+
+    // Act
+    stream.emit('data', Buffer.from('\x1b[<0;1;1M'.repeat(1003)));
+    await first;
+
+    // Assert
+    expect(onDrop).toHaveBeenCalledTimes(2);
+    expect(onDrop).toHaveBeenLastCalledWith(2);
+  } finally {
+    // Cleanup
+    await iterator.return(undefined);
+    mouse.destroy();
+  }
+});
+
+test('Mouse.eventsOf with block overflow should pause the input until the consumer catches up', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const paused: boolean[] = [];
+  stream.pause = (): ReadableStreamWithEncoding => {
+    paused.push(true);
+    return stream;
+  };
+  stream.resume = (): ReadableStreamWithEncoding => {
+    paused.push(false);
+    return stream;
+  };
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream);
+  const iterator = mouse.eventsOf('press', { maxQueue: 2, overflow: 'block' });
+
+  try {
+    mouse.enable();
+    const first = iterator.next();
+    paused.length = 0;
+
+    // Act
+    stream.emit('data', Buffer.from('\x1b[<0;1;1M\x1b[<0;2;1M\x1b[<0;3;1M\x1b[<0;4;1M'));
+
+    // Assert
+    expect((await first).value?.x).toBe(1);
+    expect(paused).toEqual([true]);
+    expect((await iterator.next()).value?.x).toBe(2);
+    expect((await iterator.next()).value?.x).toBe(3);
+    expect(paused).toEqual([true, false]);
+    expect((await iterator.next()).value?.x).toBe(4);
+  } finally {
+    // Cleanup
+    await iterator.return(undefined);
+    mouse.destroy();
+  }
+});
+
+test('Mouse.stream should yield click events by default', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream);
+  const iterator = mouse.stream();
+
+  try {
+    mouse.enable();
+    const types: string[] = [];
+
+    // Act
+    const collected = (async (): Promise<void> => {
+      for await (const { type } of iterator) {
+        types.push(type);
+        if (type === 'click') {
+          break;
+        }
+      }
+    })();
+    stream.emit('data', Buffer.from('\x1b[<0;1;1M\x1b[<0;1;1m'));
+    await collected;
+
+    // Assert
+    expect(types).toEqual(['press', 'release', 'click']);
+  } finally {
+    // Cleanup
+    await iterator.return(undefined);
+    mouse.destroy();
+  }
+});
+
+test('Mouse.stream should only queue the chosen types that pass the filter', async () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream);
+  const onDrop = mock((_dropped: number) => {});
+  const iterator = mouse.stream({
+    types: ['press', 'click'],
+    filter: (item) => item.event.x > 5,
+    maxQueue: 1,
+    onDrop,
+  });
+
+  try {
+    mouse.enable();
+    const first = iterator.next();
+
+    // Act
+    stream.emit('data', Buffer.from('\x1b[<0;8;1M\x1b[<0;8;1m\x1b[<0;2;1M\x1b[<0;2;1m\x1b[<35;9;1M'));
+    const firstItem = (await first).value;
+    const secondItem = (await iterator.next()).value;
+
+    // Assert
+    expect(firstItem).toMatchObject({ type: 'press', event: { x: 8 } });
+    expect(secondItem).toMatchObject({ type: 'click', event: { x: 8, clickCount: 1 } });
+    expect(onDrop).not.toHaveBeenCalled();
+  } finally {
+    // Cleanup
+    await iterator.return(undefined);
+    mouse.destroy();
+  }
+});
@@ -1,8 +1,61 @@
 import { EventEmitter } from 'node:events';
 
-import { ANSI_CODES } from '../parser/constants';
-import { parseMouseEvents } from '../parser/ansiParser';
-import { MouseError, type MouseEvent, type MouseEventAction, type ReadableStreamWithEncoding } from '../types';
+import { ANSI_QUERIES } from '../parser/constants';
+import { MouseParser, type InputEncoding, type InputToken } from '../parser/ansiParser';
+import {
+  MOUSE_EVENT_ACTIONS,
+  MouseAbortError,
+  MouseError,
+  MouseTimeoutError,
+  type ButtonType,
+  type CellSize,
+  type DedupePolicy,
+  type EventQueueOptions,
+  type FocusEvent,
+  type MouseCapabilities,
+  type MouseClickEvent,
+  type MouseConfig,
+  type MouseDragEvent,
+  type MouseEnableOptions,
+  type MouseEvent,
+  type MouseEventListener,
+  type MouseEventMap,
+  type MouseEventName,
+  type MouseOptions,
+  type MouseScrollEvent,
+  type MouseStreamEvent,
+  type MouseStreamEventType,
+  type ProcessLike,
+  type ReadableStreamWithEncoding,
+  type StreamOptions,
+  type WaitForOptions,
+} from '../types';
+
+import { AsyncQueue } from './AsyncQueue';
+import { CapabilityDetector, bestEncoding } from './CapabilityDetector';
+import { MotionCoalescer } from './MotionCoalescer';
+import { registerJobControl, registerSafetyHooks } from './safetyHooks';
+import { TerminalController, type TerminalSubscriber } from './TerminalController';
+import { WheelAccumulator } from './WheelAccumulator';
+
+type DragState = {
+  button: ButtonType;
+  startX: number;
+  startY: number;
+  started: boolean;
+};
+
+// The most events an `eventsOf()` or `stream()` queue can hold
+const MAX_QUEUE = 1000;
+
+// Everything `stream()` yields by default; new mouse actions are picked up automatically
+const STREAM_EVENT_TYPES: readonly MouseStreamEventType[] = [...MOUSE_EVENT_ACTIONS, 'focus', 'blur', 'paste'];
+
+/**
+ * The policy used for `dedupe: true`: repeated motion carries no new information, while
+ * repeated presses, releases and wheel notches are separate user actions.
+ */
+const DEFAULT_DEDUPE_POLICY: DedupePolicy = { move: true, drag: true };
 
 /**
  * Represents and manages mouse events in a TTY environment.
@@ -10,80 +63,423 @@ import { MouseError, type MouseEvent, type MouseEventAction, type ReadableStream
  */
 class Mouse {
   private enabled = false;
-  private previousEncoding: BufferEncoding | null = null;
-  private previousRawMode: boolean | null = null;
-  private lastPress: MouseEvent | null = null;
+  private config: MouseConfig | null = null;
+  private pendingPresses = new Map<ButtonType, MouseEvent>();
+  private lastClick: MouseClickEvent | null = null;
+  private dragState: DragState | null = null;
+  private parser: MouseParser;
+  private inputEncoding: InputEncoding = 'utf8';
+  private sequenceTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly sequenceTimeout: number;
+  private readonly pasteTimeout: number;
+  private readonly passthrough: boolean;
+  private cellSize: CellSize | null;
+  private readonly clicksEnabled: boolean;
+  private readonly clickTolerance: number;
+  private readonly clickMaxDuration: number;
+  private readonly multiClickInterval: number;
+  private readonly multiClickDistance: number;
+  private readonly dragThreshold: number;
+  private readonly wheel: WheelAccumulator | null;
+  private readonly motion: MotionCoalescer | null;
+  private readonly dedupe: DedupePolicy;
+  private readonly clock: () => number;
+  private readonly safetyHooks: boolean;
+  private readonly process: ProcessLike;
+  private unregisterSafetyHooks: (() => void) | null = null;
+  private readonly jobControl: boolean;
+  private unregisterJobControl: (() => void) | null = null;
+  private suspendedConfig: MouseConfig | null = null;
+  private releaseTerminal: (() => void) | null = null;
+  private subscriber: TerminalSubscriber | null = null;
+  private capabilities: MouseCapabilities | null = null;
+  private detection: Promise<MouseCapabilities> | null = null;
 
   /**
    * Constructs a new Mouse instance.
    * @param inputStream The readable stream to listen for mouse events on (defaults to process.stdin).
    * @param outputStream The writable stream to send control sequences to (defaults to process.stdout).
    * @param emitter The event emitter to use for emitting mouse events (defaults to a new EventEmitter).
+   * @param options Additional configuration for the instance.
    */
   constructor(
     private inputStream: ReadableStreamWithEncoding = process.stdin,
     private outputStream: NodeJS.WriteStream = process.stdout,
     private emitter: EventEmitter = new EventEmitter(),
-  ) {}
+    {
+      sequenceTimeout = 100,
+      pasteTimeout = 1000,
+      passthrough = false,
+      cellSize,
+      click = {},
+      drag = {},
+      wheel = {},
+      motion = {},
+      dedupe = false,
+      clock = (): number => performance.now(),
+      safetyHooks = false,
+      jobControl = false,
+      process: proc = process,
+    }: MouseOptions = {},
+  ) {
+    this.sequenceTimeout = sequenceTimeout;
+    this.pasteTimeout = pasteTimeout;
+    this.passthrough = passthrough;
+    this.cellSize = cellSize ?? null;
+    this.clicksEnabled = click.enabled ?? true;
+    this.clickTolerance = click.tolerance ?? 1;
+    this.clickMaxDuration = click.maxDuration ?? Number.POSITIVE_INFINITY;
+    this.multiClickInterval = click.multiClickInterval ?? 500;
+    this.multiClickDistance = click.multiClickDistance ?? 1;
+    this.dragThreshold = drag.threshold ?? 1;
+    this.wheel = wheel.enabled ? new WheelAccumulator(this.emitScroll, wheel) : null;
+    this.motion = (motion.strategy ?? 'none') === 'none' ? null : new MotionCoalescer(this.emitMotion, clock, motion);
+    this.dedupe = dedupe === true ? DEFAULT_DEDUPE_POLICY : dedupe || {};
+    this.clock = clock;
+    this.safetyHooks = safetyHooks;
+    this.jobControl = jobControl;
+    this.process = proc;
+    this.parser = new MouseParser({ clock, dedupe: this.dedupe });
+  }
+
+  private handleEvent = (data: Buffer | string): void => {
+    this.clearSequenceTimer();
 
-  private handleEvent = (data: Buffer): void => {
     try {
-      const events = parseMouseEvents(data.toString());
-      for (const event of events) {
-        this.emitter.emit(event.action, event);
-
-        if (event.action === 'press') {
-          this.lastPress = event;
-        } else if (event.action === 'release') {
-          if (this.lastPress) {
-            const xDiff = Math.abs(event.x - this.lastPress.x);
-            const yDiff = Math.abs(event.y - this.lastPress.y);
-
-            if (xDiff <= 1 && yDiff <= 1) {
-              const clickEvent: MouseEvent = { ...event, action: 'click' };
-              process.nextTick(() => {
-                this.emitter.emit('click', clickEvent);
-              });
-            }
-          }
-          this.lastPress = null;
+      this.handleTokens(this.parser.push(typeof data === 'string' ? data : data.toString(this.inputEncoding)));
+    } catch (err) {
+      this.emitError(err);
+    }
+
+    if (this.parser.hasPending()) {
+      // Give the rest of a split sequence or paste a chance to arrive before giving up on it
+      const timeout = this.parser.isPasting() ? this.pasteTimeout : this.sequenceTimeout;
+      this.sequenceTimer = setTimeout(this.flushPending, timeout);
+      this.sequenceTimer.unref?.();
+    }
+  };
+
+  private flushPending = (): void => {
+    this.sequenceTimer = null;
+
+    try {
+      this.handleTokens(this.parser.flush());
+    } catch (err) {
+      this.emitError(err);
+    }
+  };
+
+  private emit<K extends MouseEventName>(event: K, payload: MouseEventMap[K]): void {
+    this.emitter.emit(event, payload);
+  }
+
+  private emitError(err: unknown): void {
+    // Listeners always get a MouseError, with the original error kept as `originalError`
+    const error =
+      err instanceof MouseError
+        ? err
+        : new MouseError(err instanceof Error ? err.message : String(err), err instanceof Error ? err : undefined);
+    this.emit('error', error);
+  }
+
+  private clearSequenceTimer(): void {
+    if (this.sequenceTimer !== null) {
+      clearTimeout(this.sequenceTimer);
+      this.sequenceTimer = null;
+    }
+  }
+
+  private handleTokens(tokens: Iterable<InputToken>): void {
+    for (const token of tokens) {
+      if (token.type === 'text') {
+        if (this.passthrough) {
+          this.emit('data', token.text);
+        }
+        continue;
+      }
+
+      if (token.type === 'diagnostic') {
+        this.emit('diagnostic', token.diagnostic);
+        continue;
+      }
+
+      if (token.type === 'mode-report' || token.type === 'device-attributes' || token.type === 'terminal-version') {
+        // Replies to a detection run by any Mouse on this terminal are not input; the rest belong to the application
+        const terminal = TerminalController.for(this.inputStream, this.outputStream);
+        if (!terminal.handleReply(token) && this.passthrough) {
+          this.emit('data', token.data);
+        }
+        continue;
+      }
+
+      if (token.type === 'cell-size') {
+        // A terminal that does not know its cell size answers with zeros
+        if (token.cellSize.width > 0 && token.cellSize.height > 0) {
+          this.setCellSize(token.cellSize);
         }
+        continue;
       }
+
+      if (token.type === 'paste') {
+        this.motion?.flush();
+        // Without `paste: true` here, the paste was asked for by another Mouse on this terminal
+        if (this.config?.paste) {
+          this.emit('paste', token.event);
+        } else if (this.passthrough) {
+          this.emit('data', token.event.data);
+        }
+        continue;
+      }
+
+      if (token.type === 'focus') {
+        this.handleFocusEvent(token.event);
+        continue;
+      }
+
+      this.handleMouseEvent(token.event);
+    }
+  }
+
+  private handleFocusEvent(event: FocusEvent): void {
+    // Another Mouse on the same terminal, or the application itself, may have turned on focus reporting
+    if (!this.config?.focus) {
+      if (this.passthrough) {
+        this.emit('data', event.data);
+      }
+      return;
+    }
+
+    this.motion?.flush();
+
+    if (event.action === 'blur') {
+      // Buttons released while the terminal was unfocused are never reported
+      this.pendingPresses.clear();
+      this.dragState = null;
+      this.lastClick = null;
+    }
+    this.emit(event.action, event);
+  }
+
+  private handleMouseEvent(event: MouseEvent): void {
+    // Another Mouse on the same terminal may have asked for more motion than this one
+    const tracking = this.config?.tracking;
+    if ((event.action === 'move' && tracking !== 'any') || (event.action === 'drag' && tracking === 'click')) {
+      return;
+    }
+
+    if (this.motion && (event.action === 'move' || event.action === 'drag')) {
+      this.motion.push(event);
+      return;
+    }
+
+    // The last position must be known before anything happens there
+    this.motion?.flush();
+    this.dispatchMouseEvent(event);
+  }
+
+  private emitMotion = (event: MouseEvent): void => {
+    // Held motion is emitted on a timer, outside of handleEvent's error handling
+    try {
+      this.dispatchMouseEvent(event);
+    } catch (err) {
+      this.emitError(err);
+    }
+  };
+
+  private dispatchMouseEvent(event: MouseEvent): void {
+    this.emit(event.action, event);
+    this.trackDrag(event);
+    this.trackClick(event);
+
+    if (event.action === 'wheel') {
+      this.wheel?.push(event);
+    }
+  }
+
+  private emitScroll = (event: MouseScrollEvent): void => {
+    // Bursts end on a timer, outside of handleEvent's error handling
+    try {
+      this.emit('scroll', event);
     } catch (err) {
-      this.emitter.emit('error', err);
+      this.emitError(err);
     }
   };
 
+  private trackDrag(event: MouseEvent): void {
+    if (event.action === 'press') {
+      // Pressing another button during a started drag does not end or restart it
+      if (this.dragState?.started && this.dragState.button !== event.button) {
+        return;
+      }
+      this.dragState = { button: event.button, startX: event.x, startY: event.y, started: false };
+    } else if (event.action === 'drag') {
+      // Without a press, e.g. when tracking was enabled mid-drag, the drag starts here
+      this.dragState ??= { button: event.button, startX: event.x, startY: event.y, started: false };
+
+      const dragEvent = this.toDragEvent(event, this.dragState);
+      if (
+        !this.dragState.started &&
+        Math.max(Math.abs(dragEvent.deltaX), Math.abs(dragEvent.deltaY)) >= this.dragThreshold
+      ) {
+        this.dragState.started = true;
+        this.emit('dragstart', { ...dragEvent, action: 'dragstart' });
+      }
+
+      if (this.dragState.started) {
+        this.emit('dragmove', { ...dragEvent, action: 'dragmove' });
+      }
+    } else if (event.action === 'release' && this.dragState) {
+      if (event.button !== 'none' && event.button !== this.dragState.button) {
+        return;
+      }
+
+      const dragState = this.dragState;
+      this.dragState = null;
+
+      if (dragState.started) {
+        this.emit('dragend', { ...this.toDragEvent(event, dragState), action: 'dragend' });
+      }
+    }
+  }
+
+  private toDragEvent(event: MouseEvent, dragState: DragState): MouseDragEvent {
+    return {
+      ...event,
+      startX: dragState.startX,
+      startY: dragState.startY,
+      deltaX: event.x - dragState.startX,
+      deltaY: event.y - dragState.startY,
+    };
+  }
+
+  private trackClick(event: MouseEvent): void {
+    if (!this.clicksEnabled) {
+      return;
+    }
+
+    if (event.action === 'press') {
+      // Re-insert so the map stays ordered by press time
+      this.pendingPresses.delete(event.button);
+      this.pendingPresses.set(event.button, event);
+    } else if (event.action === 'release') {
+      const pending = this.takePendingPress(event.button);
+
+      if (pending) {
+        const xDiff = Math.abs(event.x - pending.x);
+        const yDiff = Math.abs(event.y - pending.y);
+        const duration = event.timestamp - pending.timestamp;
+
+        if (xDiff <= this.clickTolerance && yDiff <= this.clickTolerance && duration <= this.clickMaxDuration) {
+          this.emitClick(pending, event);
+        }
+      }
+    }
+  }
+
+  private takePendingPress(button: ButtonType): MouseEvent | undefined {
+    // Legacy protocols do not say which button was released, so match the most recent press
+    const key = button === 'none' ? [...this.pendingPresses.keys()].pop() : button;
+
+    if (key === undefined) {
+      return undefined;
+    }
+
+    const pending = this.pendingPresses.get(key);
+    this.pendingPresses.delete(key);
+    return pending;
+  }
+
+  private emitClick(press: MouseEvent, release: MouseEvent): void {
+    const last = this.lastClick;
+    const isRepeat =
+      last !== null &&
+      last.button === press.button &&
+      release.timestamp - last.timestamp <= this.multiClickInterval &&
+      Math.abs(release.x - last.x) <= this.multiClickDistance &&
+      Math.abs(release.y - last.y) <= this.multiClickDistance;
+
+    const clickEvent: MouseClickEvent = {
+      ...release,
+      button: press.button,
+      action: 'click',
+      clickCount: isRepeat ? last.clickCount + 1 : 1,
+    };
+    this.lastClick = clickEvent;
+
+    process.nextTick(() => {
+      this.emit('click', clickEvent);
+
+      if (clickEvent.clickCount === 2) {
+        this.emit('dblclick', { ...clickEvent, action: 'dblclick' });
+      } else if (clickEvent.clickCount === 3) {
+        this.emit('tripleclick', { ...clickEvent, action: 'tripleclick' });
+      }
+    });
+  }
+
   /**
    * Enables mouse event tracking.
    * This method puts the input stream into raw mode and starts listening for data.
    * It will throw an error if the input stream is not a TTY.
+   * Instances sharing the same streams share the terminal: the requested tracking levels are
+   * merged, and the terminal is restored once the last of them is disabled.
+   * @param options Which tracking level and encoding to request from the terminal.
+   * @param options.tracking Which mouse activity to report. Defaults to `any`.
+   * @param options.encoding Which encoding to request. Defaults to `sgr`.
+   * @param options.focus Whether to report `focus` and `blur` events. Defaults to false.
+   * @param options.paste Whether to turn on bracketed paste and report `paste` events. Defaults to false.
    */
-  public enable = (): void => {
+  public enable = ({
+    tracking = 'any',
+    encoding: requestedEncoding = 'sgr',
+    focus = false,
+    paste = false,
+  }: MouseEnableOptions = {}): void => {
     if (this.enabled) {
       return;
     }
 
+    this.suspendedConfig = null;
+    this.endSuspension();
+
     if (!this.inputStream.isTTY) {
       throw new Error('Mouse events require a TTY input stream');
     }
 
-    try {
-      this.previousRawMode = this.inputStream.isRaw ?? false;
-      this.previousEncoding = this.inputStream.readableEncoding || null;
+    const encoding = requestedEncoding === 'auto' ? bestEncoding(this.capabilities) : requestedEncoding;
 
+    try {
       this.enabled = true;
+      this.config = { tracking, encoding, focus, paste };
+      // TerminalController decodes the input as latin1 while X10 is in use, to keep report bytes intact
+      this.inputEncoding = encoding === 'x10' ? 'latin1' : 'utf8';
+      this.parser = new MouseParser({
+        encoding,
+        inputEncoding: this.inputEncoding,
+        cellSize: this.cellSize ?? undefined,
+        clock: this.clock,
+        dedupe: this.dedupe,
+      });
 
-      this.outputStream.write(
-        ANSI_CODES.mouseButton.on + ANSI_CODES.mouseDrag.on + ANSI_CODES.mouseMotion.on + ANSI_CODES.mouseSGR.on,
-      );
+      // Pixel reports can only be mapped to cells once the cell size is known
+      const cellSizeQuery = encoding === 'sgr-pixels' && this.cellSize === null ? ANSI_QUERIES.cellSize : '';
+
+      // Other Mouse instances on the same streams share raw mode, the data listener and the enabled modes
+      const subscriber: TerminalSubscriber = { config: this.config, onData: this.handleEvent };
+      TerminalController.for(this.inputStream, this.outputStream).attach(subscriber, cellSizeQuery);
+      this.subscriber = subscriber;
 
-      this.inputStream.setRawMode(true);
-      this.inputStream.setEncoding('utf8');
-      this.inputStream.resume();
-      this.inputStream.on('data', this.handleEvent);
+      if (this.safetyHooks) {
+        this.unregisterSafetyHooks = registerSafetyHooks(this.process, this.restoreTerminal);
+      }
+
+      // Stays registered while suspended, so SIGCONT can resume
+      if (this.jobControl) {
+        this.unregisterJobControl ??= registerJobControl(this.process, this.handleStop);
+      }
     } catch (err) {
       this.enabled = false;
+      this.config = null;
       throw new MouseError(
         `Failed to enable mouse: ${err instanceof Error ? err.message : String(err)}`,
         err instanceof Error ? err : undefined,
@@ -96,25 +492,20 @@ class Mouse {
    * This method restores the input stream to its previous state and stops listening for data.
    */
   public disable = (): void => {
+    this.suspendedConfig = null;
+    this.endSuspension();
+
     if (!this.enabled) {
       return;
     }
 
     try {
-      this.inputStream.off('data', this.handleEvent);
-      this.inputStream.pause();
+      this.clearSequenceTimer();
+      this.parser.reset();
 
-      if (this.previousRawMode !== null) {
-        this.inputStream.setRawMode(this.previousRawMode);
+      if (this.subscriber !== null) {
+        TerminalController.for(this.inputStream, this.outputStream).detach(this.subscriber);
       }
-
-      if (this.previousEncoding !== null) {
-        this.inputStream.setEncoding(this.previousEncoding);
-      }
-
-      this.outputStream.write(
-        ANSI_CODES.mouseSGR.off + ANSI_CODES.mouseMotion.off + ANSI_CODES.mouseDrag.off + ANSI_CODES.mouseButton.off,
-      );
     } catch (err) {
       throw new MouseError(
         `Failed to disable mouse: ${err instanceof Error ? err.message : String(err)}`,
@@ -122,244 +513,411 @@ class Mouse {
       );
     } finally {
       this.enabled = false;
-      this.previousRawMode = null;
-      this.previousEncoding = null;
+      this.config = null;
+      this.pendingPresses.clear();
+      this.dragState = null;
+      this.wheel?.cancel();
+      this.motion?.cancel();
+      this.unregisterSafetyHooks?.();
+      this.unregisterSafetyHooks = null;
+      this.subscriber = null;
+    }
+  };
+
+  private restoreTerminal = (): void => {
+    this.disable();
+    // Instances without safety hooks share the terminal too, so it is restored for all of them
+    TerminalController.for(this.inputStream, this.outputStream).restore();
+  };
+
+  /**
+   * Temporarily disables the mouse, restoring the terminal as it was before `enable()`,
+   * for example while a child process such as an editor uses the terminal.
+   * Other instances on the same streams stay enabled, but their modes are off until this one resumes.
+   * Does nothing if the mouse is not enabled.
+   */
+  public suspend = (): void => {
+    const config = this.config;
+    if (!this.enabled || config === null) {
+      return;
+    }
+
+    this.disable();
+    // Other instances on the same streams keep their subscriptions, so the terminal is suspended for all of them
+    this.releaseTerminal = TerminalController.for(this.inputStream, this.outputStream).suspend();
+    this.suspendedConfig = config;
+  };
+
+  private endSuspension(): void {
+    const release = this.releaseTerminal;
+    this.releaseTerminal = null;
+    release?.();
+  }
+
+  /**
+   * Re-enables the mouse with the configuration it had when it was suspended.
+   * Does nothing unless the mouse is suspended.
+   */
+  public resume = (): void => {
+    const config = this.suspendedConfig;
+    if (config === null) {
+      return;
+    }
+
+    this.enable(config);
+  };
+
+  /**
+   * Suspends the mouse while a function runs, and resumes it afterwards even if the function fails.
+   * If the mouse is not enabled, the function just runs.
+   * @param fn The function to run, such as one that spawns an editor and waits for it.
+   * @returns The result of the function.
+   */
+  public async withSuspended<T>(fn: () => T | Promise<T>): Promise<T> {
+    const suspending = this.enabled;
+    this.suspend();
+
+    try {
+      return await fn();
+    } finally {
+      if (suspending) {
+        this.resume();
+      }
+    }
+  }
+
+  /**
+   * Checks if the mouse is suspended.
+   * @returns {boolean} True if the mouse is suspended, false otherwise.
+   */
+  public isSuspended(): boolean {
+    return this.suspendedConfig !== null;
+  }
+
+  private handleStop = (): (() => void) | null => {
+    if (!this.enabled) {
+      return null;
     }
+
+    try {
+      this.suspend();
+    } catch (err) {
+      this.emitError(err);
+      return null;
+    }
+
+    return (): void => {
+      try {
+        this.resume();
+      } catch (err) {
+        this.emitError(err);
+      }
+    };
   };
 
   /**
    * Registers a listener for a specific mouse event.
+   * The `data` event receives non-mouse input when the `passthrough` option is set, and the
+   * `diagnostic` event reports mouse input that was received but could not be decoded.
+   * The `focus` and `blur` events are only emitted when enabled with `focus: true`, and the
+   * `paste` event only when enabled with `paste: true`. The `error` event receives a `MouseError`.
+   * @param event The name of the event to listen for.
+   * @param listener The callback function to execute when the event is triggered.
+   * @returns This Mouse instance, for chaining.
+   */
+  public on = <K extends MouseEventName>(event: K, listener: MouseEventListener<K>): this => {
+    this.emitter.on(event, listener);
+    return this;
+  };
+
+  /**
+   * Registers a listener that is removed after it is called once.
+   * @param event The name of the event to listen for.
+   * @param listener The callback function to execute when the event is triggered.
+   * @returns This Mouse instance, for chaining.
+   */
+  public once = <K extends MouseEventName>(event: K, listener: MouseEventListener<K>): this => {
+    this.emitter.once(event, listener);
+    return this;
+  };
+
+  /**
+   * Registers a listener that is called before the listeners already registered for the event.
    * @param event The name of the event to listen for.
    * @param listener The callback function to execute when the event is triggered.
-   * @returns The event emitter instance.
+   * @returns This Mouse instance, for chaining.
    */
-  public on = (event: MouseEventAction | 'error', listener: (event: MouseEvent) => void): EventEmitter => {
-    return this.emitter.on(event, listener);
+  public prependListener = <K extends MouseEventName>(event: K, listener: MouseEventListener<K>): this => {
+    this.emitter.prependListener(event, listener);
+    return this;
   };
 
   /**
    * Removes a listener for a specific mouse event.
    * @param event The name of the event to stop listening for.
    * @param listener The callback function to remove.
-   * @returns The event emitter instance.
+   * @returns This Mouse instance, for chaining.
    */
-  public off = (event: MouseEventAction | 'error', listener: (event: MouseEvent) => void): EventEmitter => {
-    return this.emitter.off(event, listener);
+  public off = <K extends MouseEventName>(event: K, listener: MouseEventListener<K>): this => {
+    this.emitter.off(event, listener);
+    return this;
   };
 
+  /**
+   * Returns the number of listeners for a specific mouse event, including those of `eventsOf()` and `stream()`.
+   * @param event The name of the event.
+   * @returns {number} The number of listeners.
+   */
+  public listenerCount(event: MouseEventName): number {
+    return this.emitter.listenerCount(event);
+  }
+
   /**
    * Returns an async generator that yields mouse events of a specific type.
    * @param type The type of mouse event to listen for.
    * @param options Configuration for the event stream.
    * @param options.latestOnly If true, only the latest event is buffered. Defaults to false.
    * @param options.maxQueue The maximum number of events to queue. Defaults to 100, with a maximum of 1000.
+   * @param options.overflow What to do when the queue is full. Defaults to `drop-oldest`.
+   * @param options.onDrop Called with the total number of dropped events each time one is dropped.
+   * @param options.signal An AbortSignal to cancel the async generator.
+   * @yields {MouseEventMap[K]} The event, typed like the payload of an `on(type)` listener.
+   */
+  public eventsOf<K extends MouseStreamEventType>(
+    type: K,
+    { maxQueue = 100, ...options }: EventQueueOptions = {},
+  ): AsyncGenerator<MouseEventMap[K]> {
+    return this.iterate([type], (_type, event) => event as MouseEventMap[K], { maxQueue, ...options });
+  }
+
+  /**
+   * Returns an async generator that yields events of several types, by default every event type
+   * `Mouse` emits: mouse events, synthesized events such as `click`, and `focus`, `blur` and `paste`.
+   * Each yielded value is an object containing the event type and the event data.
+   * @param options Configuration for the event stream.
+   * @param options.types The event types to yield. Defaults to all of them.
+   * @param options.filter Only events for which this returns true are queued.
+   * @param options.latestOnly If true, only the latest event is buffered. Defaults to false.
+   * @param options.maxQueue The maximum number of events to queue. Defaults to 1000, which is also the maximum.
+   * @param options.overflow What to do when the queue is full. Defaults to `drop-oldest`.
+   * @param options.onDrop Called with the total number of dropped events each time one is dropped.
    * @param options.signal An AbortSignal to cancel the async generator.
-   * @yields {MouseEvent} A mouse event object.
+   * @yields {MouseStreamEvent} An object with the event type and data.
    */
-  public async *eventsOf(
-    type: MouseEventAction,
+  public stream<K extends MouseStreamEventType = MouseStreamEventType>({
+    types = STREAM_EVENT_TYPES as readonly K[],
+    maxQueue = MAX_QUEUE,
+    ...options
+  }: StreamOptions<K> = {}): AsyncGenerator<MouseStreamEvent<K>> {
+    return this.iterate(types, (type, event) => ({ type, event }) as MouseStreamEvent<K>, { maxQueue, ...options });
+  }
+
+  private async *iterate<T>(
+    types: readonly MouseStreamEventType[],
+    wrap: (type: MouseStreamEventType, event: MouseStreamEvent['event']) => T,
     {
       latestOnly = false,
-      maxQueue = 100,
+      maxQueue = MAX_QUEUE,
+      overflow = 'drop-oldest',
+      onDrop,
       signal,
-    }: { latestOnly?: boolean; maxQueue?: number; signal?: AbortSignal } = {},
-  ): AsyncGenerator<MouseEvent> {
+      filter,
+    }: EventQueueOptions & { filter?: (item: T) => boolean },
+  ): AsyncGenerator<T> {
     if (signal?.aborted) {
-      throw new Error('The operation was aborted.');
+      throw new MouseAbortError();
     }
 
-    const queue: MouseEvent[] = [];
-    const errorQueue: Error[] = [];
-    const finalMaxQueue = Math.min(maxQueue, 1000);
-    let latest: MouseEvent | null = null;
-    let resolveNext: ((value: MouseEvent) => void) | null = null;
-    let rejectNext: ((err: Error) => void) | null = null;
-
-    const handler = (ev: MouseEvent): void => {
-      if (resolveNext) {
-        resolveNext(ev);
-        resolveNext = null;
-        rejectNext = null;
-        latest = null;
-      } else if (latestOnly) {
-        latest = ev;
-      } else {
-        if (queue.length >= finalMaxQueue) queue.shift();
-        queue.push(ev);
-      }
+    // With `block`, a full queue holds back the input until the consumer catches up
+    let heldInput: (() => void) | null = null;
+    const releaseInput = (): void => {
+      heldInput?.();
+      heldInput = null;
     };
+    const queue = new AsyncQueue<T>({
+      capacity: latestOnly ? 1 : Math.min(maxQueue, MAX_QUEUE),
+      overflow: latestOnly ? 'drop-oldest' : overflow,
+      onDrop,
+      onFull: (): void => {
+        heldInput ??= TerminalController.for(this.inputStream, this.outputStream).hold();
+      },
+      onDrain: releaseInput,
+    });
+
+    // Filtered out events never reach the queue, so they cannot push out the ones that matter
+    const handlers = [...new Set(types)].map((type) => {
+      const handler = (event: MouseStreamEvent['event']): void => {
+        const item = wrap(type, event);
+        try {
+          if (filter && !filter(item)) {
+            return;
+          }
+        } catch (err) {
+          const error = err instanceof Error ? err : new Error(String(err));
+          queue.fail(new MouseError(`Error in mouse event stream: ${error.message}`, error));
+          return;
+        }
+        queue.push(item);
+      };
+      return [type, handler] as const;
+    });
 
     const errorHandler = (err: Error): void => {
-      const mouseError = new MouseError(`Error in mouse event stream: ${err.message}`, err);
-      if (rejectNext) {
-        rejectNext(mouseError);
-        resolveNext = null;
-        rejectNext = null;
-      } else {
-        errorQueue.push(mouseError);
-      }
+      queue.fail(new MouseError(`Error in mouse event stream: ${err.message}`, err));
     };
 
     const abortHandler = (): void => {
-      const err = new MouseError('The operation was aborted.');
-      if (rejectNext) {
-        rejectNext(err);
-        resolveNext = null;
-        rejectNext = null;
-      } else {
-        errorQueue.push(err);
-      }
+      queue.fail(new MouseAbortError());
     };
 
-    this.emitter.on(type, handler);
+    for (const [type, handler] of handlers) {
+      this.emitter.on(type, handler);
+    }
     this.emitter.on('error', errorHandler);
     signal?.addEventListener('abort', abortHandler);
 
     try {
       while (true) {
-        if (signal?.aborted) {
-          throw new MouseError('The operation was aborted.');
-        }
-
-        if (errorQueue.length > 0) {
-          throw errorQueue.shift();
-        }
-
-        if (queue.length > 0) {
-          const event = queue.shift();
-          if (event) {
-            yield event;
-          }
-        } else if (latest !== null) {
-          const ev = latest;
-          latest = null;
-          yield ev;
-        } else {
-          yield await new Promise<MouseEvent>((resolve, reject) => {
-            resolveNext = resolve;
-            rejectNext = reject;
-          });
-        }
+        yield await queue.next();
       }
     } finally {
-      this.emitter.off(type, handler);
+      for (const [type, handler] of handlers) {
+        this.emitter.off(type, handler);
+      }
       this.emitter.off('error', errorHandler);
       signal?.removeEventListener('abort', abortHandler);
+      releaseInput();
     }
   }
 
   /**
-   * Returns an async generator that yields all mouse events.
-   * Each yielded value is an object containing the event type and the event data.
-   * @param options Configuration for the event stream.
-   * @param options.latestOnly If true, only the latest event is buffered. Defaults to false.
-   * @param options.maxQueue The maximum number of events to queue. Defaults to 1000.
-   * @param options.signal An AbortSignal to cancel the async generator.
-   * @yields {{ type: MouseEventAction; event: MouseEvent }} An object with the event type and data.
+   * Waits for the next event of a specific type that passes the filter.
+   * @param type The type of event to wait for.
+   * @param options Configuration for the wait.
+   * @param options.filter Only events for which this returns true are accepted.
+   * @param options.timeout How long to wait in milliseconds. Waits forever by default.
+   * @param options.signal An AbortSignal to cancel the wait.
+   * @returns {Promise} The first matching event. Rejects with a `MouseTimeoutError` when the
+   * timeout elapses, a `MouseAbortError` when the signal is aborted, or the error thrown by the filter.
    */
-  public async *stream({
-    latestOnly = false,
-    maxQueue = 1000,
-    signal,
-  }: {
-    latestOnly?: boolean;
-    maxQueue?: number;
-    signal?: AbortSignal;
-  } = {}): AsyncGenerator<{ type: MouseEventAction; event: MouseEvent }> {
-    if (signal?.aborted) {
-      throw new Error('The operation was aborted.');
-    }
+  public waitFor<K extends MouseEventName>(
+    type: K,
+    { filter, timeout, signal }: WaitForOptions<K> = {},
+  ): Promise<MouseEventMap[K]> {
+    return new Promise((resolve, reject) => {
+      const abortReason = (): Error | undefined => (signal?.reason instanceof Error ? signal.reason : undefined);
+      if (signal?.aborted) {
+        reject(new MouseAbortError(abortReason()));
+        return;
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = (): void => {
+        clearTimeout(timer);
+        this.emitter.off(type, listener);
+        signal?.removeEventListener('abort', abortHandler);
+      };
 
-    const queue: { type: MouseEventAction; event: MouseEvent }[] = [];
-    const errorQueue: Error[] = [];
-    let latest: { type: MouseEventAction; event: MouseEvent } | null = null;
-    let resolveNext: ((value: { type: MouseEventAction; event: MouseEvent }) => void) | null = null;
-    let rejectNext: ((err: Error) => void) | null = null;
-
-    const handlers = new Map<MouseEventAction, (ev: MouseEvent) => void>();
-    const allEvents: MouseEventAction[] = ['press', 'release', 'drag', 'wheel', 'move'];
-
-    allEvents.forEach((type) => {
-      const handler = (ev: MouseEvent): void => {
-        const wrapped = { type, event: ev };
-
-        if (resolveNext) {
-          resolveNext(wrapped);
-          resolveNext = null;
-          rejectNext = null;
-          latest = null;
-        } else if (latestOnly) {
-          latest = wrapped;
-        } else {
-          if (queue.length >= maxQueue) queue.shift();
-          queue.push(wrapped);
+      const listener = (event: MouseEventMap[K]): void => {
+        try {
+          if (filter && !filter(event)) {
+            return;
+          }
+        } catch (err) {
+          cleanup();
+          reject(err);
+          return;
         }
+        cleanup();
+        resolve(event);
       };
 
-      handlers.set(type, handler);
-      this.emitter.on(type, handler);
-    });
+      const abortHandler = (): void => {
+        cleanup();
+        reject(new MouseAbortError(abortReason()));
+      };
 
-    const errorHandler = (err: Error): void => {
-      const mouseError = new MouseError(`Error in mouse event stream: ${err.message}`, err);
-      if (rejectNext) {
-        rejectNext(mouseError);
-        resolveNext = null;
-        rejectNext = null;
-      } else {
-        errorQueue.push(mouseError);
-      }
-    };
-    this.emitter.on('error', errorHandler);
+      this.emitter.on(type, listener);
+      signal?.addEventListener('abort', abortHandler);
 
-    const abortHandler = (): void => {
-      const err = new MouseError('The operation was aborted.');
-      if (rejectNext) {
-        rejectNext(err);
-        resolveNext = null;
-        rejectNext = null;
-      } else {
-        errorQueue.push(err);
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(new MouseTimeoutError(`Timed out after ${timeout}ms waiting for ${type}`, timeout));
+        }, timeout);
       }
-    };
-    signal?.addEventListener('abort', abortHandler);
+    });
+  }
 
-    try {
-      while (true) {
-        if (signal?.aborted) {
-          throw new MouseError('The operation was aborted.');
-        }
+  /**
+   * Waits for the next `click` event that passes the filter.
+   * @param options Configuration for the wait, as for `waitFor()`.
+   * @returns {Promise<MouseClickEvent>} The click event.
+   */
+  public nextClick(options?: WaitForOptions<'click'>): Promise<MouseClickEvent> {
+    return this.waitFor('click', options);
+  }
 
-        if (errorQueue.length > 0) {
-          throw errorQueue.shift();
-        }
+  /**
+   * Waits for the next `press` event that passes the filter.
+   * @param options Configuration for the wait, as for `waitFor()`.
+   * @returns {Promise<MouseEvent>} The press event.
+   */
+  public nextPress(options?: WaitForOptions<'press'>): Promise<MouseEvent> {
+    return this.waitFor('press', options);
+  }
 
-        if (queue.length > 0) {
-          const event = queue.shift();
-          if (event) {
-            yield event;
-          }
-        } else if (latest !== null) {
-          const ev = latest;
-          latest = null;
-          yield ev;
-        } else {
-          yield await new Promise<{ type: MouseEventAction; event: MouseEvent }>((resolve, reject) => {
-            resolveNext = resolve;
-            rejectNext = reject;
-          });
-        }
-      }
-    } finally {
-      allEvents.forEach((type) => {
-        const handler = handlers.get(type);
-        if (handler) {
-          this.emitter.off(type, handler);
+  /**
+   * Asks the terminal which mouse modes it supports, using DECRQM, DA1 and XTVERSION queries.
+   * The replies are read from the input stream and never reach mouse or `data` listeners of any Mouse on the terminal.
+   * The result is remembered for `enable({ encoding: 'auto' })`.
+   * @param options Configuration for the detection.
+   * @param options.timeout How long to wait for the terminal to answer, in milliseconds. Defaults to 1000.
+   * @returns {Promise<MouseCapabilities>} What the terminal reported.
+   */
+  public detectCapabilities({ timeout = 1000 }: { timeout?: number } = {}): Promise<MouseCapabilities> {
+    this.detection ??= this.runDetection(timeout).finally(() => {
+      this.detection = null;
+    });
+    return this.detection;
+  }
+
+  private async runDetection(timeout: number): Promise<MouseCapabilities> {
+    if (!this.inputStream.isTTY) {
+      throw new MouseError('Capability detection requires a TTY input stream');
+    }
+
+    const terminal = TerminalController.for(this.inputStream, this.outputStream);
+    // Replies need raw input even while the mouse is disabled; once enabled, its own subscription reads them
+    const subscriber: TerminalSubscriber = {
+      config: null,
+      onData: (data): void => {
+        if (!this.enabled) {
+          this.handleEvent(data);
         }
+      },
+    };
+
+    let done = (): void => {};
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const detector = new CapabilityDetector(() => done());
+    const stopReplies = terminal.expectReplies(detector);
+
+    try {
+      await new Promise<void>((resolve) => {
+        done = resolve;
+        terminal.attach(subscriber, CapabilityDetector.queries());
+        timer = setTimeout(resolve, timeout);
       });
-      this.emitter.off('error', errorHandler);
-      signal?.removeEventListener('abort', abortHandler);
+    } finally {
+      clearTimeout(timer);
+      stopReplies();
+      terminal.detach(subscriber);
     }
+
+    this.capabilities = detector.result();
+    return this.capabilities;
   }
 
   /**
@@ -370,12 +928,40 @@ class Mouse {
     return this.enabled;
   }
 
+  /**
+   * Returns the tracking configuration requested by the last `enable()` call.
+   * @returns {MouseConfig | null} The active configuration, or null if disabled.
+   */
+  public getConfig(): MouseConfig | null {
+    return this.config === null ? null : { ...this.config };
+  }
+
+  /**
+   * Sets the size of a character cell in pixels.
+   * It is used to derive cell coordinates for events reported with the `sgr-pixels` encoding.
+   * @param cellSize The size of a character cell in pixels.
+   */
+  public setCellSize(cellSize: CellSize): void {
+    this.cellSize = { ...cellSize };
+    this.parser.setCellSize(this.cellSize);
+  }
+
+  /**
+   * Returns the size of a character cell in pixels, if known.
+   * @returns {CellSize | null} The cell size, or null if it has not been set or reported yet.
+   */
+  public getCellSize(): CellSize | null {
+    return this.cellSize === null ? null : { ...this.cellSize };
+  }
+
   /**
    * Disables mouse tracking and removes all event listeners.
    * This is a cleanup method to ensure no resources are left hanging.
    */
   public destroy(): void {
     this.disable();
+    this.unregisterJobControl?.();
+    this.unregisterJobControl = null;
     this.emitter.removeAllListeners();
   }
 }
@@ -0,0 +1,295 @@
+import { expect, test } from 'bun:test';
+
+import type { ReadableStreamWithEncoding, RegionEvent } from '../types';
+
+import { Mouse } from './Mouse';
+import { RegionManager } from './RegionManager';
+import { makeFakeOutputStream, makeFakeTTYStream } from './testHelpers';
+
+function setup(): { stream: ReadableStreamWithEncoding; mouse: Mouse; regions: RegionManager } {
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream);
+  const regions = new RegionManager(mouse);
+  mouse.enable();
+  return { stream, mouse, regions };
+}
+
+function moveTo(stream: ReadableStreamWithEncoding, x: number, y: number): void {
+  stream.emit('data', Buffer.from(`\x1b[<35;${x};${y}M`));
+}
+
+test('RegionManager.hitTest should return the topmost region', () => {
+  // Arrange
+  const { mouse, regions } = setup();
+  regions.register('back', { x: 1, y: 1, width: 20, height: 10 });
+  regions.register('front', { x: 5, y: 5, width: 5, height: 5 }, { zIndex: 1 });
+  regions.register('later', { x: 1, y: 1, width: 3, height: 3 });
+
+  // Act & Assert
+  expect(regions.hitTest(6, 6)).toBe('front');
+  expect(regions.hitTest(2, 2)).toBe('later');
+  expect(regions.hitTest(15, 2)).toBe('back');
+  expect(regions.hitTest(21, 2)).toBeNull();
+  expect(regions.hitTest(10, 5)).toBe('back');
+
+  // Cleanup
+  regions.destroy();
+  mouse.destroy();
+});
+
+test('RegionManager should deliver events with region-relative coordinates', () => {
+  // Arrange
+  const { stream, mouse, regions } = setup();
+  regions.register('button', { x: 10, y: 4, width: 8, height: 1 });
+  const presses: RegionEvent[] = [];
+  regions.on('button', 'press', (event) => presses.push(event));
+
+  // Act
+  stream.emit('data', Buffer.from('\x1b[<0;12;4M'));
+  stream.emit('data', Buffer.from('\x1b[<0;30;4M'));
+
+  // Assert
+  expect(presses).toHaveLength(1);
+  expect(presses[0]).toMatchObject({ type: 'press', target: 'button', currentTarget: 'button', localX: 2, localY: 0 });
+  expect(presses[0]?.event.x).toBe(12);
+
+  // Cleanup
+  regions.destroy();
+  mouse.destroy();
+});
+
+test('RegionManager should synthesize mouseenter and mouseleave from motion', () => {
+  // Arrange
+  const { stream, mouse, regions } = setup();
+  regions.register('a', { x: 1, y: 1, width: 5, height: 5 });
+  regions.register('b', { x: 6, y: 1, width: 5, height: 5 });
+  const log: string[] = [];
+  for (const id of ['a', 'b']) {
+    regions.on(id, 'mouseenter', () => log.push(`enter ${id}`));
+    regions.on(id, 'mouseleave', () => log.push(`leave ${id}`));
+  }
+
+  // Act
+  moveTo(stream, 2, 2);
+  moveTo(stream, 3, 2);
+  moveTo(stream, 7, 2);
+  moveTo(stream, 20, 2);
+
+  // Assert
+  expect(log).toEqual(['enter a', 'leave a', 'enter b', 'leave b']);
+
+  // Cleanup
+  regions.destroy();
+  mouse.destroy();
+});
+
+test('RegionManager should re-evaluate hover when the layout changes', () => {
+  // Arrange
+  const { stream, mouse, regions } = setup();
+  regions.register('a', { x: 1, y: 1, width: 5, height: 5 });
+  const log: string[] = [];
+  moveTo(stream, 8, 2);
+
+  // Act
+  regions.on('a', 'mouseenter', () => log.push('enter a'));
+  regions.on('a', 'mouseleave', () => log.push('leave a'));
+  regions.update('a', { rect: { x: 5, y: 1, width: 5, height: 5 } });
+  regions.register('b', { x: 8, y: 2, width: 1, height: 1 });
+  regions.on('b', 'mouseenter', () => log.push('enter b'));
+  regions.remove('b');
+
+  // Assert
+  expect(log).toEqual(['enter a', 'leave a', 'enter a']);
+
+  // Cleanup
+  regions.destroy();
+  mouse.destroy();
+});
+
+test('RegionManager should reject duplicate and unknown regions', () => {
+  // Arrange
+  const { mouse, regions } = setup();
+  regions.register('a', { x: 1, y: 1, width: 1, height: 1 });
+
+  // Act & Assert
+  expect(() => regions.register('a', { x: 1, y: 1, width: 1, height: 1 })).toThrow('already registered');
+  expect(() => regions.update('missing', { zIndex: 1 })).toThrow('not registered');
+  expect(regions.remove('missing')).toBe(false);
+  expect(regions.remove('a')).toBe(true);
+
+  // Cleanup
+  regions.destroy();
+  mouse.destroy();
+});
+
+test('RegionManager.destroy should stop routing events', () => {
+  // Arrange
+  const { stream, mouse, regions } = setup();
+  regions.register('a', { x: 1, y: 1, width: 5, height: 5 });
+  let count = 0;
+  regions.on('a', 'move', () => count++);
+
+  // Act
+  regions.destroy();
+  moveTo(stream, 2, 2);
+
+  // Assert
+  expect(count).toBe(0);
+  expect(regions.hitTest(2, 2)).toBeNull();
+
+  // Cleanup
+  mouse.destroy();
+});
+
+test('RegionManager should propagate events through capture, target and bubble phases', () => {
+  // Arrange
+  const { stream, mouse, regions } = setup();
+  regions.register('panel', { x: 1, y: 1, width: 20, height: 10 });
+  regions.register('button', { x: 5, y: 5, width: 4, height: 1 }, { parent: 'panel' });
+  const log: string[] = [];
+  for (const id of ['panel', 'button']) {
+    regions.on(id, 'press', (event) => log.push(`${id} ${event.eventPhase} ${event.localX}`), { capture: true });
+    regions.on(id, 'press', (event) => log.push(`${id} ${event.eventPhase} ${event.localX}`));
+  }
+
+  // Act
+  stream.emit('data', Buffer.from('\x1b[<0;6;5M'));
+
+  // Assert
+  expect(log).toEqual(['panel capture 5', 'button target 1', 'button target 1', 'panel bubble 5']);
+
+  // Cleanup
+  regions.destroy();
+  mouse.destroy();
+});
+
+test('RegionEvent.stopPropagation should keep the event from reaching outer regions', () => {
+  // Arrange
+  const { stream, mouse, regions } = setup();
+  regions.register('panel', { x: 1, y: 1, width: 20, height: 10 });
+  regions.register('button', { x: 5, y: 5, width: 4, height: 1 }, { parent: 'panel' });
+  const panelPresses: RegionEvent[] = [];
+  let buttonListeners = 0;
+  regions.on('button', 'press', (event) => {
+    buttonListeners++;
+    event.preventDefault();
+    event.stopPropagation();
+  });
+  regions.on('button', 'press', () => buttonListeners++);
+  regions.on('panel', 'press', (event) => panelPresses.push(event));
+  regions.on('panel', 'release', (event) => panelPresses.push(event));
+
+  // Act
+  stream.emit('data', Buffer.from('\x1b[<0;6;5M'));
+  stream.emit('data', Buffer.from('\x1b[<0;6;5m'));
+
+  // Assert
+  expect(buttonListeners).toBe(2);
+  expect(panelPresses).toHaveLength(1);
+  expect(panelPresses[0]?.type).toBe('release');
+  expect(panelPresses[0]?.target).toBe('button');
+  expect(panelPresses[0]?.defaultPrevented).toBe(false);
+
+  // Cleanup
+  regions.destroy();
+  mouse.destroy();
+});
+
+test('RegionEvent.preventDefault should be visible to outer regions', () => {
+  // Arrange
+  const { stream, mouse, regions } = setup();
+  regions.register('panel', { x: 1, y: 1, width: 20, height: 10 });
+  regions.register('button', { x: 5, y: 5, width: 4, height: 1 }, { parent: 'panel' });
+  let prevented: boolean | undefined;
+  regions.on('button', 'press', (event) => event.preventDefault());
+  regions.on('panel', 'press', (event) => {
+    prevented = event.defaultPrevented;
+  });
+
+  // Act
+  stream.emit('data', Buffer.from('\x1b[<0;6;5M'));
+
+  // Assert
+  expect(prevented).toBe(true);
+
+  // Cleanup
+  regions.destroy();
+  mouse.destroy();
+});
+
+test('RegionManager should send mouseenter and mouseleave to each entered and left ancestor', () => {
+  // Arrange
+  const { stream, mouse, regions } = setup();
+  regions.register('panel', { x: 1, y: 1, width: 20, height: 10 });
+  regions.register('button', { x: 5, y: 5, width: 4, height: 1 }, { parent: 'panel' });
+  const log: string[] = [];
+  for (const id of ['panel', 'button']) {
+    regions.on(id, 'mouseenter', (event) => log.push(`enter ${id} ${event.target}`));
+    regions.on(id, 'mouseleave', (event) => log.push(`leave ${id} ${event.target}`));
+  }
+
+  // Act
+  moveTo(stream, 6, 5);
+  moveTo(stream, 2, 2);
+  moveTo(stream, 30, 2);
+
+  // Assert
+  expect(log).toEqual(['enter panel panel', 'enter button button', 'leave button button', 'leave panel panel']);
+
+  // Cleanup
+  regions.destroy();
+  mouse.destroy();
+});
+
+test('RegionManager should leave hovered regions when the terminal loses focus', () => {
+  // Arrange
+  const stream = makeFakeTTYStream();
+  const mouse = new Mouse(stream, makeFakeOutputStream().stream);
+  const regions = new RegionManager(mouse);
+  mouse.enable({ focus: true });
+  regions.register('panel', { x: 1, y: 1, width: 20, height: 10 });
+  regions.register('button', { x: 5, y: 5, width: 4, height: 1 }, { parent: 'panel' });
+  const log: string[] = [];
+  for (const id of ['panel', 'button']) {
+    regions.on(id, 'mouseenter', () => log.push(`enter ${id}`));
+    regions.on(id, 'mouseleave', () => log.push(`leave ${id}`));
+  }
+  moveTo(stream, 6, 5);
+
+  // Act
+  stream.emit('data', Buffer.from('\x1b[O'));
+  regions.update('button', { rect: { x: 1, y: 1, width: 20, height: 10 } });
+  stream.emit('data', Buffer.from('\x1b[I'));
+  moveTo(stream, 6, 5);
+
+  // Assert
+  expect(log).toEqual(['enter panel', 'enter button', 'leave button', 'leave panel', 'enter panel', 'enter button']);
+
+  // Cleanup
+  regions.destroy();
+  mouse.destroy();
+});
+
+test('RegionManager should validate and maintain the parent chain', () => {
+  // Arrange
+  const { stream, mouse, regions } = setup();
+  regions.register('root', { x: 1, y: 1, width: 20, height: 10 });
+  regions.register('panel', { x: 1, y: 1, width: 10, height: 10 }, { parent: 'root' });
+  regions.register('button', { x: 2, y: 2, width: 2, height: 1 }, { parent: 'panel' });
+  const targets: string[] = [];
+  regions.on('root', 'press', (event) => targets.push(event.target));
+
+  // Act & Assert
+  expect(() => regions.register('orphan', { x: 1, y: 1, width: 1, height: 1 }, { parent: 'missing' })).toThrow(
+    'not registered',
+  );
+  expect(() => regions.update('root', { parent: 'button' })).toThrow('own descendant');
+
+  regions.remove('panel');
+  stream.emit('data', Buffer.from('\x1b[<0;2;2M'));
+  expect(targets).toEqual(['button']);
+
+  // Cleanup
+  regions.destroy();
+  mouse.destroy();
+});
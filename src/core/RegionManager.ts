@@ -0,0 +1,366 @@
+import { EventEmitter } from 'node:events';
+
+import {
+  MOUSE_EVENT_ACTIONS,
+  MouseError,
+  type MouseEvent,
+  type MouseEventAction,
+  type Rect,
+  RegionEvent,
+  type RegionEventType,
+} from '../types';
+
+import type { Mouse } from './Mouse';
+
+type Region = {
+  id: string;
+  rect: Rect;
+  zIndex: number;
+  order: number;
+  parent: string | null;
+  emitter: EventEmitter;
+  captureEmitter: EventEmitter;
+};
+
+/**
+ * Options for `RegionManager.register()`.
+ */
+type RegionOptions = {
+  /** The stacking order of the region. Defaults to 0. */
+  zIndex?: number;
+  /** The id of the region this one is nested in. Events propagate through it. */
+  parent?: string | null;
+};
+
+/**
+ * Options for `RegionManager.on()` and `RegionManager.off()`.
+ */
+type RegionListenerOptions = {
+  /** If true, the listener is called in the capture phase instead of the target and bubble phases. */
+  capture?: boolean;
+};
+
+/**
+ * Routes mouse events to rectangular regions of the terminal.
+ * Each event is dispatched to the topmost region under the pointer and propagates through its
+ * parent chain like a DOM event: down from the root in the capture phase, then back up in the
+ * bubble phase. Moving the pointer between regions synthesizes `mouseenter` and `mouseleave`
+ * events, which do not bubble. A `blur` of the terminal leaves every hovered region.
+ */
+class RegionManager {
+  private regions = new Map<string, Region>();
+  private handlers = new Map<MouseEventAction, (event: MouseEvent) => void>();
+  private hovered: string | null = null;
+  private lastPointer: MouseEvent | null = null;
+  private nextOrder = 0;
+
+  /**
+   * Constructs a new RegionManager and starts listening to the given Mouse.
+   * @param mouse The Mouse instance to route events from.
+   */
+  constructor(private mouse: Mouse) {
+    for (const action of MOUSE_EVENT_ACTIONS) {
+      const handler = (event: MouseEvent): void => {
+        this.handleEvent(action, event);
+      };
+      this.handlers.set(action, handler);
+      this.mouse.on(action, handler);
+    }
+    this.mouse.on('blur', this.handleBlur);
+  }
+
+  private handleBlur = (): void => {
+    // The pointer is not reported while the terminal is unfocused, so it has left every region
+    const event = this.lastPointer;
+    this.lastPointer = null;
+    if (event !== null) {
+      this.setHovered(null, event);
+    }
+  };
+
+  private handleEvent(action: MouseEventAction, event: MouseEvent): void {
+    if (action === 'move' || action === 'drag') {
+      this.lastPointer = event;
+      this.updateHover();
+    }
+
+    const target = this.hitTest(event.x, event.y);
+    if (target !== null) {
+      this.dispatch(new RegionEvent(action, target, event));
+    }
+  }
+
+  private updateHover(): void {
+    const event = this.lastPointer;
+    const target = event === null ? null : this.hitTest(event.x, event.y);
+
+    if (event !== null) {
+      this.setHovered(target, event);
+    }
+  }
+
+  private setHovered(target: string | null, event: MouseEvent): void {
+    if (target === this.hovered) {
+      return;
+    }
+
+    const previousPath = this.hovered === null ? [] : this.pathOf(this.hovered);
+    const path = target === null ? [] : this.pathOf(target);
+    this.hovered = target;
+
+    for (const id of previousPath) {
+      if (!path.includes(id)) {
+        this.dispatch(new RegionEvent('mouseleave', id, event, false));
+      }
+    }
+    for (const id of [...path].reverse()) {
+      if (!previousPath.includes(id)) {
+        this.dispatch(new RegionEvent('mouseenter', id, event, false));
+      }
+    }
+  }
+
+  /**
+   * Returns the ids of a region and its ancestors, innermost first.
+   */
+  private pathOf(id: string): string[] {
+    const path: string[] = [];
+    let current = this.regions.get(id);
+
+    while (current) {
+      path.push(current.id);
+      current = current.parent === null ? undefined : this.regions.get(current.parent);
+    }
+    return path;
+  }
+
+  private dispatch(regionEvent: RegionEvent): void {
+    const path = this.pathOf(regionEvent.target);
+
+    for (let i = path.length - 1; i > 0; i--) {
+      if (!this.deliver(path[i] as string, regionEvent, 'capture')) {
+        return;
+      }
+    }
+    if (!this.deliver(regionEvent.target, regionEvent, 'target') || !regionEvent.bubbles) {
+      return;
+    }
+    for (let i = 1; i < path.length; i++) {
+      if (!this.deliver(path[i] as string, regionEvent, 'bubble')) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Calls the listeners of one region for the given phase.
+   * @returns {boolean} False if propagation was stopped.
+   */
+  private deliver(id: string, regionEvent: RegionEvent, phase: RegionEvent['eventPhase']): boolean {
+    const region = this.regions.get(id);
+    if (!region) {
+      return !regionEvent.cancelBubble;
+    }
+
+    regionEvent.currentTarget = id;
+    regionEvent.eventPhase = phase;
+    regionEvent.localX = regionEvent.event.x - region.rect.x;
+    regionEvent.localY = regionEvent.event.y - region.rect.y;
+
+    if (phase !== 'bubble') {
+      region.captureEmitter.emit(regionEvent.type, regionEvent);
+    }
+    if (phase !== 'capture') {
+      region.emitter.emit(regionEvent.type, regionEvent);
+    }
+    return !regionEvent.cancelBubble;
+  }
+
+  private getRegion(id: string): Region {
+    const region = this.regions.get(id);
+    if (!region) {
+      throw new MouseError(`Region "${id}" is not registered`);
+    }
+    return region;
+  }
+
+  private checkParent(id: string, parent: string | null): void {
+    if (parent === null) {
+      return;
+    }
+    this.getRegion(parent);
+    if (this.pathOf(parent).includes(id)) {
+      throw new MouseError(`Region "${id}" cannot be nested in its own descendant "${parent}"`);
+    }
+  }
+
+  /**
+   * Registers a region.
+   * Regions with a higher `zIndex` are on top; among equal ones, the last registered is on top.
+   * Nesting does not affect stacking, so register children after their parent or give them a higher `zIndex`.
+   * @param id A unique id for the region.
+   * @param rect The area the region covers.
+   * @param options Configuration for the region.
+   * @param options.zIndex The stacking order of the region. Defaults to 0.
+   * @param options.parent The id of the region this one is nested in.
+   */
+  public register(id: string, rect: Rect, { zIndex = 0, parent = null }: RegionOptions = {}): void {
+    if (this.regions.has(id)) {
+      throw new MouseError(`Region "${id}" is already registered`);
+    }
+    this.checkParent(id, parent);
+
+    this.regions.set(id, {
+      id,
+      rect: { ...rect },
+      zIndex,
+      order: this.nextOrder++,
+      parent,
+      emitter: new EventEmitter(),
+      captureEmitter: new EventEmitter(),
+    });
+    this.updateHover();
+  }
+
+  /**
+   * Moves, resizes, restacks or reparents a registered region.
+   * The pointer is hit-tested again, so `mouseenter` and `mouseleave` follow layout changes.
+   * @param id The id of the region.
+   * @param changes The properties to change.
+   * @param changes.rect The new area of the region.
+   * @param changes.zIndex The new stacking order of the region.
+   * @param changes.parent The new parent of the region, or null to make it a root.
+   */
+  public update(id: string, { rect, zIndex, parent }: RegionOptions & { rect?: Rect }): void {
+    const region = this.getRegion(id);
+
+    if (parent !== undefined) {
+      this.checkParent(id, parent);
+      region.parent = parent;
+    }
+
+    if (rect) {
+      region.rect = { ...rect };
+    }
+    if (zIndex !== undefined) {
+      region.zIndex = zIndex;
+    }
+    this.updateHover();
+  }
+
+  /**
+   * Removes a region and all of its listeners.
+   * Its children are moved to its parent.
+   * @param id The id of the region.
+   * @returns {boolean} True if the region existed, false otherwise.
+   */
+  public remove(id: string): boolean {
+    const region = this.regions.get(id);
+    if (!region) {
+      return false;
+    }
+
+    region.emitter.removeAllListeners();
+    region.captureEmitter.removeAllListeners();
+    this.regions.delete(id);
+
+    for (const other of this.regions.values()) {
+      if (other.parent === id) {
+        other.parent = region.parent;
+      }
+    }
+
+    if (this.hovered === id) {
+      this.hovered = region.parent;
+    }
+    this.updateHover();
+    return true;
+  }
+
+  /**
+   * Returns the id of the topmost region at the given position.
+   * @param x The 1-based column.
+   * @param y The 1-based row.
+   * @returns {string | null} The id of the region, or null if no region is there.
+   */
+  public hitTest(x: number, y: number): string | null {
+    let top: Region | null = null;
+
+    for (const region of this.regions.values()) {
+      const { rect } = region;
+      const inside = x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height;
+
+      if (
+        inside &&
+        (top === null || region.zIndex > top.zIndex || (region.zIndex === top.zIndex && region.order > top.order))
+      ) {
+        top = region;
+      }
+    }
+
+    return top?.id ?? null;
+  }
+
+  /**
+   * Registers a listener for events delivered to a region.
+   * @param id The id of the region.
+   * @param type The name of the event to listen for.
+   * @param listener The callback function to execute when the event is triggered.
+   * @param options Configuration for the listener.
+   * @param options.capture If true, the listener is called in the capture phase.
+   * @returns The RegionManager instance.
+   */
+  public on(
+    id: string,
+    type: RegionEventType,
+    listener: (event: RegionEvent) => void,
+    { capture = false }: RegionListenerOptions = {},
+  ): this {
+    const region = this.getRegion(id);
+    (capture ? region.captureEmitter : region.emitter).on(type, listener);
+    return this;
+  }
+
+  /**
+   * Removes a listener for events delivered to a region.
+   * @param id The id of the region.
+   * @param type The name of the event to stop listening for.
+   * @param listener The callback function to remove.
+   * @param options Configuration for the listener.
+   * @param options.capture Whether the listener was registered for the capture phase.
+   * @returns The RegionManager instance.
+   */
+  public off(
+    id: string,
+    type: RegionEventType,
+    listener: (event: RegionEvent) => void,
+    { capture = false }: RegionListenerOptions = {},
+  ): this {
+    const region = this.regions.get(id);
+    if (region) {
+      (capture ? region.captureEmitter : region.emitter).off(type, listener);
+    }
+    return this;
+  }
+
+  /**
+   * Stops listening to the Mouse and removes all regions.
+   */
+  public destroy(): void {
+    for (const [action, handler] of this.handlers) {
+      this.mouse.off(action, handler);
+    }
+    this.handlers.clear();
+    this.mouse.off('blur', this.handleBlur);
+
+    for (const region of this.regions.values()) {
+      region.emitter.removeAllListeners();
+      region.captureEmitter.removeAllListeners();
+    }
+    this.regions.clear();
+    this.hovered = null;
+    this.lastPointer = null;
+  }
+}
+
+export { RegionManager, type RegionOptions, type RegionListenerOptions };
@@ -0,0 +1,170 @@
+import { expect, mock, test } from 'bun:test';
+
+import type { MouseConfig, ReadableStreamWithEncoding } from '../types';
+
+import { TerminalController, type TerminalSubscriber } from './TerminalController';
+import { makeFakeOutputStream, makeFakeTTYStream } from './testHelpers';
+
+function subscriber(config: MouseConfig): TerminalSubscriber {
+  return { config, onData: mock((_data: Buffer | string) => {}) };
+}
+
+test('TerminalController.for should return one controller per stream pair', () => {
+  // Arrange
+  const input = makeFakeTTYStream();
+  const output = makeFakeOutputStream().stream;
+
+  // Act & Assert
+  expect(TerminalController.for(input, output)).toBe(TerminalController.for(input, output));
+  expect(TerminalController.for(input, output)).not.toBe(TerminalController.for(input, makeFakeOutputStream().stream));
+  expect(TerminalController.for(input, output)).not.toBe(TerminalController.for(makeFakeTTYStream(), output));
+});
+
+test('TerminalController should merge tracking modes and restore the terminal after the last subscriber', () => {
+  // Arrange
+  const input = makeFakeTTYStream();
+  const { stream: output, writes } = makeFakeOutputStream();
+  const controller = TerminalController.for(input, output);
+  const statusBar = subscriber({ tracking: 'click', encoding: 'sgr', focus: false, paste: false });
+  const view = subscriber({ tracking: 'any', encoding: 'sgr', focus: false, paste: false });
+
+  // Act & Assert
+  controller.attach(statusBar);
+  controller.attach(view);
+  expect(input.listenerCount('data')).toBe(1);
+
+  input.emit('data', 'chunk');
+  expect(statusBar.onData).toHaveBeenCalledWith('chunk');
+  expect(view.onData).toHaveBeenCalledWith('chunk');
+
+  controller.detach(view);
+  expect(input.isRaw).toBe(true);
+
+  controller.detach(statusBar);
+  controller.detach(statusBar);
+  expect(input.isRaw).toBe(false);
+  expect(input.listenerCount('data')).toBe(0);
+  expect(writes).toEqual([
+    '\x1b[?1000h\x1b[?1006h',
+    '\x1b[?1002h\x1b[?1003h',
+    '\x1b[?1003l\x1b[?1002l',
+    '\x1b[?1006l\x1b[?1000l',
+  ]);
+});
+
+test('TerminalController should keep focus reporting on while any subscriber wants it', () => {
+  // Arrange
+  const input = makeFakeTTYStream();
+  const { stream: output, writes } = makeFakeOutputStream();
+  const controller = TerminalController.for(input, output);
+  const plain = subscriber({ tracking: 'any', encoding: 'sgr', focus: false, paste: false });
+  const focused = subscriber({ tracking: 'click', encoding: 'sgr', focus: true, paste: false });
+
+  // Act
+  controller.attach(plain);
+  controller.attach(focused);
+  controller.detach(focused);
+  controller.detach(plain);
+
+  // Assert
+  expect(writes).toEqual([
+    '\x1b[?1000h\x1b[?1002h\x1b[?1003h\x1b[?1006h',
+    '\x1b[?1004h',
+    '\x1b[?1004l',
+    '\x1b[?1006l\x1b[?1003l\x1b[?1002l\x1b[?1000l',
+  ]);
+});
+
+test('TerminalController should reject a subscriber with a different encoding', () => {
+  // Arrange
+  const controller = TerminalController.for(makeFakeTTYStream(), makeFakeOutputStream().stream);
+  const sgr = subscriber({ tracking: 'any', encoding: 'sgr', focus: false, paste: false });
+  controller.attach(sgr);
+
+  // Act & Assert
+  expect(() =>
+    controller.attach(subscriber({ tracking: 'any', encoding: 'urxvt', focus: false, paste: false })),
+  ).toThrow('Cannot use the urxvt encoding');
+
+  // Cleanup
+  controller.detach(sgr);
+});
+
+test('TerminalController should decode input as latin1 only while X10 is in use', () => {
+  // Arrange
+  const input = makeFakeTTYStream();
+  const encodings: BufferEncoding[] = [];
+  input.setEncoding = (encoding: BufferEncoding): ReadableStreamWithEncoding => {
+    encodings.push(encoding);
+    return input;
+  };
+  const controller = TerminalController.for(input, makeFakeOutputStream().stream);
+  const detector: TerminalSubscriber = { config: null, onData: mock(() => {}) };
+  const x10 = subscriber({ tracking: 'click', encoding: 'x10', focus: false, paste: false });
+
+  // Act
+  controller.attach(detector);
+  controller.attach(x10);
+  controller.detach(x10);
+  controller.detach(detector);
+
+  // Assert
+  expect(encodings).toEqual(['utf8', 'latin1', 'utf8', 'utf8']);
+});
+
+test('TerminalController.hold should pause the input until every hold is released', () => {
+  // Arrange
+  const input = makeFakeTTYStream();
+  const calls: string[] = [];
+  input.pause = (): ReadableStreamWithEncoding => {
+    calls.push('pause');
+    return input;
+  };
+  input.resume = (): ReadableStreamWithEncoding => {
+    calls.push('resume');
+    return input;
+  };
+  const controller = TerminalController.for(input, makeFakeOutputStream().stream);
+  const view = subscriber({ tracking: 'any', encoding: 'sgr', focus: false, paste: false });
+  controller.attach(view);
+  calls.length = 0;
+
+  // Act & Assert
+  const first = controller.hold();
+  const second = controller.hold();
+  first();
+  first();
+  expect(calls).toEqual(['pause']);
+  second();
+  expect(calls).toEqual(['pause', 'resume']);
+
+  // Cleanup
+  controller.detach(view);
+});
+
+test('TerminalController.suspend should give the terminal back until every suspension is released', () => {
+  // Arrange
+  const input = makeFakeTTYStream();
+  const { stream: output, writes } = makeFakeOutputStream();
+  const controller = TerminalController.for(input, output);
+  const view = subscriber({ tracking: 'click', encoding: 'sgr', focus: false, paste: false });
+  controller.attach(view);
+
+  // Act & Assert
+  const first = controller.suspend();
+  const second = controller.suspend();
+  expect(input.isRaw).toBe(false);
+  expect(input.listenerCount('data')).toBe(0);
+
+  first();
+  first();
+  expect(input.isRaw).toBe(false);
+
+  second();
+  expect(input.isRaw).toBe(true);
+  expect(input.listenerCount('data')).toBe(1);
+  expect(writes).toEqual(['\x1b[?1000h\x1b[?1006h', '\x1b[?1006l\x1b[?1000l', '\x1b[?1000h\x1b[?1006h']);
+
+  // Cleanup
+  controller.detach(view);
+});
@@ -0,0 +1,329 @@
+import type { InputToken } from '../parser/ansiParser';
+import { ANSI_CODES, ENCODING_MODES, TRACKING_MODES, type AnsiCodeName } from '../parser/constants';
+import { MouseError, type MouseConfig, type MouseTrackingMode, type ReadableStreamWithEncoding } from '../types';
+
+import type { CapabilityDetector } from './CapabilityDetector';
+
+/**
+ * A user of the terminal: the modes it needs and where its input goes.
+ * A subscriber without a config needs raw input only, for example to read replies to queries.
+ */
+type TerminalSubscriber = {
+  config: MouseConfig | null;
+  onData: (data: Buffer | string) => void;
+};
+
+const TRACKING_ORDER: MouseTrackingMode[] = ['click', 'drag', 'any'];
+
+/**
+ * Owns the terminal state for one input/output stream pair on behalf of every Mouse using it.
+ * Raw mode and the data listener are set up for the first subscriber and torn down after
+ * the last one, and the enabled modes are the union of what the subscribers asked for.
+ */
+class TerminalController {
+  private static controllers = new WeakMap<
+    ReadableStreamWithEncoding,
+    WeakMap<NodeJS.WriteStream, TerminalController>
+  >();
+
+  private subscribers = new Set<TerminalSubscriber>();
+  private activeModes: AnsiCodeName[] = [];
+  private previousEncoding: BufferEncoding | null = null;
+  private previousRawMode: boolean | null = null;
+  private inputEncoding: BufferEncoding | null = null;
+  private holds = 0;
+  private suspensions = 0;
+  private detectors = new Set<CapabilityDetector>();
+
+  private constructor(
+    private inputStream: ReadableStreamWithEncoding,
+    private outputStream: NodeJS.WriteStream,
+  ) {}
+
+  /**
+   * Returns the controller shared by everything that uses the given streams.
+   * @param inputStream The terminal input.
+   * @param outputStream The terminal output.
+   * @returns The shared controller.
+   */
+  public static for(inputStream: ReadableStreamWithEncoding, outputStream: NodeJS.WriteStream): TerminalController {
+    let byOutput = TerminalController.controllers.get(inputStream);
+    if (!byOutput) {
+      byOutput = new WeakMap();
+      TerminalController.controllers.set(inputStream, byOutput);
+    }
+
+    let controller = byOutput.get(outputStream);
+    if (!controller) {
+      controller = new TerminalController(inputStream, outputStream);
+      byOutput.set(outputStream, controller);
+    }
+    return controller;
+  }
+
+  private dispatch = (data: Buffer | string): void => {
+    for (const subscriber of [...this.subscribers]) {
+      subscriber.onData(data);
+    }
+  };
+
+  /**
+   * Returns the modes needed by the current subscribers, in the order they are enabled.
+   */
+  private modesFor(subscribers: Iterable<TerminalSubscriber>): AnsiCodeName[] {
+    let tracking: MouseTrackingMode | null = null;
+    let encoding: MouseConfig['encoding'] | null = null;
+    let focus = false;
+    let paste = false;
+
+    for (const { config } of subscribers) {
+      if (config === null) {
+        continue;
+      }
+      if (tracking === null || TRACKING_ORDER.indexOf(config.tracking) > TRACKING_ORDER.indexOf(tracking)) {
+        tracking = config.tracking;
+      }
+      encoding = config.encoding;
+      focus ||= config.focus;
+      paste ||= config.paste;
+    }
+
+    if (tracking === null || encoding === null) {
+      return [];
+    }
+    return [
+      ...TRACKING_MODES[tracking],
+      ...ENCODING_MODES[encoding],
+      ...(focus ? (['focus'] as const) : []),
+      ...(paste ? (['bracketedPaste'] as const) : []),
+    ];
+  }
+
+  /**
+   * Decodes the input so that legacy X10 reports keep their bytes. Their coordinate bytes above
+   * 0x7f are not valid UTF-8, so while X10 is in use the input is decoded as latin1 instead.
+   */
+  private applyInputEncoding(subscribers: Iterable<TerminalSubscriber>): void {
+    let encoding: BufferEncoding = 'utf8';
+    for (const { config } of subscribers) {
+      if (config?.encoding === 'x10') {
+        encoding = 'latin1';
+      }
+    }
+
+    if (encoding !== this.inputEncoding) {
+      this.inputStream.setEncoding(encoding);
+      this.inputEncoding = encoding;
+    }
+  }
+
+  /**
+   * Adds a subscriber, taking over the terminal if it is the first one.
+   * @param subscriber The modes to enable and the listener for input.
+   * @param query A query to send along with the mode changes, if any.
+   */
+  public attach(subscriber: TerminalSubscriber, query = ''): void {
+    // The terminal reports in one encoding only, so every subscriber has to agree on it
+    const encoding = subscriber.config?.encoding;
+    for (const other of this.subscribers) {
+      if (encoding !== undefined && other.config && other.config.encoding !== encoding) {
+        throw new MouseError(
+          `Cannot use the ${encoding} encoding while another Mouse on this terminal uses ${other.config.encoding}`,
+        );
+      }
+    }
+
+    const modes = this.modesFor([...this.subscribers, subscriber]);
+    const added = modes.filter((mode) => !this.activeModes.includes(mode));
+
+    if (this.subscribers.size === 0) {
+      this.previousRawMode = this.inputStream.isRaw ?? false;
+      this.previousEncoding = this.inputStream.readableEncoding || null;
+    }
+
+    // A suspended terminal is left alone; resuming applies the modes of every subscriber
+    if (this.suspensions === 0) {
+      const codes = added.map((mode) => ANSI_CODES[mode].on).join('') + query;
+      if (codes) {
+        this.outputStream.write(codes);
+      }
+
+      if (this.subscribers.size === 0) {
+        this.takeOver([subscriber]);
+      } else {
+        this.applyInputEncoding([...this.subscribers, subscriber]);
+      }
+    }
+    this.activeModes = modes;
+    this.subscribers.add(subscriber);
+  }
+
+  private takeOver(subscribers: Iterable<TerminalSubscriber>): void {
+    this.inputStream.setRawMode(true);
+    this.applyInputEncoding(subscribers);
+    if (this.holds === 0) {
+      this.inputStream.resume();
+    }
+    this.inputStream.on('data', this.dispatch);
+  }
+
+  private giveBack(): void {
+    this.inputStream.off('data', this.dispatch);
+    this.inputStream.pause();
+
+    if (this.previousRawMode !== null) {
+      this.inputStream.setRawMode(this.previousRawMode);
+    }
+
+    // A stream without an encoding can not get it back, and UTF-8 is what the application expects
+    this.inputStream.setEncoding(this.previousEncoding ?? 'utf8');
+    this.inputEncoding = null;
+  }
+
+  /**
+   * Hands the terminal back as it was before the first subscriber, for example while a child
+   * process uses it, until every suspension is released. Subscribers stay attached, and their
+   * modes are turned on again when the last suspension is released.
+   * @returns A function that releases the suspension. Calling it again has no effect.
+   */
+  public suspend(): () => void {
+    if (this.suspensions++ === 0 && this.subscribers.size > 0) {
+      this.giveBack();
+      if (this.activeModes.length > 0) {
+        this.outputStream.write(
+          [...this.activeModes]
+            .reverse()
+            .map((mode) => ANSI_CODES[mode].off)
+            .join(''),
+        );
+      }
+    }
+
+    let released = false;
+    return (): void => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      if (--this.suspensions === 0 && this.subscribers.size > 0) {
+        if (this.activeModes.length > 0) {
+          this.outputStream.write(this.activeModes.map((mode) => ANSI_CODES[mode].on).join(''));
+        }
+        this.takeOver(this.subscribers);
+      }
+    };
+  }
+
+  /**
+   * Detaches every subscriber, turning off all modes and restoring the terminal, for when the
+   * process is going down and other subscribers will not get the chance to detach themselves.
+   */
+  public restore(): void {
+    for (const subscriber of [...this.subscribers]) {
+      this.detach(subscriber);
+    }
+  }
+
+  /**
+   * Pauses the input until every hold is released, so a slow consumer can catch up.
+   * @returns A function that releases the hold. Calling it again has no effect.
+   */
+  public hold(): () => void {
+    if (this.holds++ === 0) {
+      this.inputStream.pause();
+    }
+
+    let released = false;
+    return (): void => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      // Input stays paused while nobody is attached or the terminal is suspended
+      if (--this.holds === 0 && this.subscribers.size > 0 && this.suspensions === 0) {
+        this.inputStream.resume();
+      }
+    };
+  }
+
+  /**
+   * Routes replies to capability queries to a detector until the returned function is called.
+   * Every subscriber sees the replies, so they all have to recognize them as not being input.
+   * @param detector The detector waiting for replies.
+   * @returns A function that stops routing replies to the detector.
+   */
+  public expectReplies(detector: CapabilityDetector): () => void {
+    this.detectors.add(detector);
+    return (): void => {
+      this.detectors.delete(detector);
+    };
+  }
+
+  /**
+   * Hands a token to the detectors waiting for replies.
+   * @param token A token parsed from the input.
+   * @returns {boolean} True if the token was a reply to a capability query in progress.
+   */
+  public handleReply(token: InputToken): boolean {
+    let handled = false;
+    for (const detector of this.detectors) {
+      // Each subscriber passes the same reply along, and recording it again changes nothing
+      handled = detector.handle(token) || handled;
+    }
+    return handled;
+  }
+
+  /**
+   * Removes a subscriber, turning off the modes nobody needs anymore and restoring the
+   * terminal after the last one.
+   * @param subscriber The subscriber passed to `attach()`.
+   */
+  public detach(subscriber: TerminalSubscriber): void {
+    if (!this.subscribers.delete(subscriber)) {
+      return;
+    }
+
+    const modes = this.modesFor(this.subscribers);
+    const removed = this.activeModes.filter((mode) => !modes.includes(mode));
+    this.activeModes = modes;
+
+    // The terminal was already handed back when it was suspended
+    if (this.suspensions > 0) {
+      if (this.subscribers.size === 0) {
+        this.previousRawMode = null;
+        this.previousEncoding = null;
+      }
+      return;
+    }
+
+    if (this.subscribers.size > 0) {
+      this.applyInputEncoding(this.subscribers);
+      if (removed.length > 0) {
+        this.outputStream.write(
+          removed
+            .reverse()
+            .map((mode) => ANSI_CODES[mode].off)
+            .join(''),
+        );
+      }
+      return;
+    }
+
+    try {
+      this.giveBack();
+      this.outputStream.write(
+        removed
+          .reverse()
+          .map((mode) => ANSI_CODES[mode].off)
+          .join(''),
+      );
+    } finally {
+      this.previousRawMode = null;
+      this.previousEncoding = null;
+    }
+  }
+}
+
+export { TerminalController, type TerminalSubscriber };
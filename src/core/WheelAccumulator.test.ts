@@ -0,0 +1,96 @@
+import { expect, test } from 'bun:test';
+
+import type { ButtonType, MouseEvent, MouseScrollEvent } from '../types';
+
+import { WheelAccumulator } from './WheelAccumulator';
+
+function wheelEvent(button: ButtonType, timestamp = 0): MouseEvent {
+  return {
+    x: 10,
+    y: 20,
+    button,
+    action: 'wheel',
+    shift: false,
+    alt: false,
+    ctrl: false,
+    raw: 64,
+    data: '',
+    timestamp,
+    protocol: 'SGR',
+  };
+}
+
+test('WheelAccumulator should merge a burst into one event with a signed delta', () => {
+  // Arrange
+  const scrolls: MouseScrollEvent[] = [];
+  const wheel = new WheelAccumulator((event) => scrolls.push(event));
+
+  // Act
+  wheel.push(wheelEvent('wheel-up'));
+  wheel.push(wheelEvent('wheel-up'));
+  wheel.push(wheelEvent('wheel-up'));
+  wheel.push(wheelEvent('wheel-right'));
+  wheel.flush();
+
+  // Assert
+  expect(scrolls).toHaveLength(1);
+  expect(scrolls[0]).toMatchObject({ action: 'scroll', deltaX: 1, deltaY: -3, notches: 4, x: 10, y: 20 });
+});
+
+test('WheelAccumulator should scale the delta by the notch size and acceleration', () => {
+  // Arrange
+  const scrolls: MouseScrollEvent[] = [];
+  const calls: [number, number][] = [];
+  const wheel = new WheelAccumulator((event) => scrolls.push(event), {
+    delta: 3,
+    acceleration: (notches, duration): number => {
+      calls.push([notches, duration]);
+      return notches > 1 ? 2 : 1;
+    },
+  });
+
+  // Act
+  wheel.push(wheelEvent('wheel-down', 100));
+  wheel.push(wheelEvent('wheel-down', 108));
+  wheel.flush();
+  wheel.push(wheelEvent('wheel-down', 500));
+  wheel.flush();
+
+  // Assert
+  expect(calls).toEqual([
+    [2, 8],
+    [1, 0],
+  ]);
+  expect(scrolls.map((event) => event.deltaY)).toEqual([12, 3]);
+});
+
+test('WheelAccumulator should emit a burst once its window has passed', async () => {
+  // Arrange
+  const scrolls: MouseScrollEvent[] = [];
+  const wheel = new WheelAccumulator((event) => scrolls.push(event), { window: 10 });
+
+  // Act
+  wheel.push(wheelEvent('wheel-down'));
+  wheel.push(wheelEvent('wheel-down'));
+
+  // Assert
+  expect(scrolls).toHaveLength(0);
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  expect(scrolls).toHaveLength(1);
+  expect(scrolls[0]?.deltaY).toBe(2);
+});
+
+test('WheelAccumulator.cancel should discard the current burst', async () => {
+  // Arrange
+  const scrolls: MouseScrollEvent[] = [];
+  const wheel = new WheelAccumulator((event) => scrolls.push(event), { window: 10 });
+
+  // Act
+  wheel.push(wheelEvent('wheel-down'));
+  wheel.cancel();
+  wheel.flush();
+  await new Promise((resolve) => setTimeout(resolve, 50));
+
+  // Assert
+  expect(scrolls).toHaveLength(0);
+});
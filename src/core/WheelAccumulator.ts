@@ -0,0 +1,100 @@
+import type { MouseEvent, MouseScrollEvent, WheelOptions } from '../types';
+
+/**
+ * Merges bursts of `wheel` events into single `scroll` events with a signed delta.
+ * A burst starts with the first `wheel` event and lasts for `window` milliseconds.
+ */
+class WheelAccumulator {
+  private burst: MouseEvent[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly window: number;
+  private readonly delta: number;
+  private readonly acceleration: (notches: number, duration: number) => number;
+
+  /**
+   * @param onScroll Called with the merged event at the end of each burst.
+   * @param options How to merge and scale the burst.
+   */
+  constructor(
+    private onScroll: (event: MouseScrollEvent) => void,
+    { window = 50, delta = 1, acceleration = (): number => 1 }: WheelOptions = {},
+  ) {
+    this.window = window;
+    this.delta = delta;
+    this.acceleration = acceleration;
+  }
+
+  /**
+   * Adds a `wheel` event to the current burst, starting one if needed.
+   * @param event The wheel event.
+   */
+  public push(event: MouseEvent): void {
+    this.burst.push(event);
+
+    if (this.timer === null) {
+      this.timer = setTimeout(this.flush, this.window);
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * Emits the current burst right away, if there is one.
+   */
+  public flush = (): void => {
+    this.clearTimer();
+
+    const burst = this.burst;
+    this.burst = [];
+
+    const last = burst.at(-1);
+    const first = burst[0];
+    if (!last || !first) {
+      return;
+    }
+
+    let stepsX = 0;
+    let stepsY = 0;
+    for (const event of burst) {
+      switch (event.button) {
+        case 'wheel-up':
+          stepsY--;
+          break;
+        case 'wheel-down':
+          stepsY++;
+          break;
+        case 'wheel-left':
+          stepsX--;
+          break;
+        case 'wheel-right':
+          stepsX++;
+          break;
+      }
+    }
+
+    const factor = this.acceleration(burst.length, last.timestamp - first.timestamp);
+    this.onScroll({
+      ...last,
+      action: 'scroll',
+      deltaX: stepsX * this.delta * factor,
+      deltaY: stepsY * this.delta * factor,
+      notches: burst.length,
+    });
+  };
+
+  /**
+   * Discards the current burst without emitting it.
+   */
+  public cancel(): void {
+    this.clearTimer();
+    this.burst = [];
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export { WheelAccumulator };
@@ -0,0 +1,155 @@
+import { EventEmitter } from 'node:events';
+
+import { expect, mock, test } from 'bun:test';
+
+import type { ProcessLike } from '../types';
+
+import { registerJobControl, registerSafetyHooks } from './safetyHooks';
+
+function makeFakeProcess(): ProcessLike & EventEmitter & { kill: ReturnType<typeof mock> } {
+  const fake = new EventEmitter() as ProcessLike & EventEmitter & { kill: ReturnType<typeof mock> };
+  Object.assign(fake, { pid: 1234, kill: mock((_pid: number, _signal?: string) => true) });
+  return fake;
+}
+
+test('registerSafetyHooks should run every cleanup on exit and crash', () => {
+  // Arrange
+  const proc = makeFakeProcess();
+  const first = mock(() => {});
+  const second = mock(() => {});
+  registerSafetyHooks(proc, first);
+  registerSafetyHooks(proc, second);
+
+  // Act
+  proc.emit('exit', 0);
+  proc.emit('uncaughtExceptionMonitor', new Error('boom'));
+
+  // Assert
+  expect(first).toHaveBeenCalledTimes(2);
+  expect(second).toHaveBeenCalledTimes(2);
+});
+
+test('registerSafetyHooks should restore and re-raise a signal nobody else handles', () => {
+  // Arrange
+  const proc = makeFakeProcess();
+  const cleanup = mock(() => {});
+  registerSafetyHooks(proc, cleanup);
+
+  // Act
+  proc.emit('SIGINT', 'SIGINT');
+
+  // Assert
+  expect(cleanup).toHaveBeenCalledTimes(1);
+  expect(proc.kill).toHaveBeenCalledWith(1234, 'SIGINT');
+  expect(proc.listenerCount('SIGINT')).toBe(0);
+  expect(proc.listenerCount('exit')).toBe(0);
+});
+
+test('registerSafetyHooks should leave signals alone when the application handles them', () => {
+  // Arrange
+  const proc = makeFakeProcess();
+  const cleanup = mock(() => {});
+  registerSafetyHooks(proc, cleanup);
+  proc.on('SIGTERM', () => {});
+
+  // Act
+  proc.emit('SIGTERM', 'SIGTERM');
+
+  // Assert
+  expect(cleanup).not.toHaveBeenCalled();
+  expect(proc.kill).not.toHaveBeenCalled();
+});
+
+test('registerSafetyHooks should leave exceptions alone when the application handles them', () => {
+  // Arrange
+  const proc = makeFakeProcess();
+  const cleanup = mock(() => {});
+  registerSafetyHooks(proc, cleanup);
+  proc.on('uncaughtException', () => {});
+
+  // Act
+  proc.emit('uncaughtExceptionMonitor', new Error('handled'));
+
+  // Assert
+  expect(cleanup).not.toHaveBeenCalled();
+  expect(proc.listenerCount('uncaughtExceptionMonitor')).toBe(1);
+});
+
+test('registerSafetyHooks should rethrow an unhandled rejection after restoring', () => {
+  // Arrange
+  const proc = makeFakeProcess();
+  const cleanup = mock(() => {});
+  const reason = new Error('rejected');
+  registerSafetyHooks(proc, cleanup);
+
+  // Act & Assert
+  expect(() => proc.emit('unhandledRejection', reason, Promise.resolve())).toThrow(reason);
+  expect(cleanup).toHaveBeenCalledTimes(1);
+});
+
+test('registerSafetyHooks should remove its listeners once every cleanup is unregistered', () => {
+  // Arrange
+  const proc = makeFakeProcess();
+  const unregisterFirst = registerSafetyHooks(proc, () => {});
+  const unregisterSecond = registerSafetyHooks(proc, () => {});
+
+  // Act & Assert
+  expect(proc.listenerCount('SIGINT')).toBe(1);
+  unregisterFirst();
+  expect(proc.listenerCount('exit')).toBe(1);
+  unregisterSecond();
+  unregisterSecond();
+  expect(proc.eventNames()).toEqual([]);
+});
+
+test('registerSafetyHooks should keep running cleanups when one throws', () => {
+  // Arrange
+  const proc = makeFakeProcess();
+  const cleanup = mock(() => {});
+  registerSafetyHooks(proc, () => {
+    throw new Error('cleanup failed');
+  });
+  registerSafetyHooks(proc, cleanup);
+
+  // Act
+  proc.emit('exit', 1);
+
+  // Assert
+  expect(cleanup).toHaveBeenCalledTimes(1);
+});
+
+test('registerJobControl should stop the process and resume only what was suspended', () => {
+  // Arrange
+  const proc = makeFakeProcess();
+  const resume = mock(() => {});
+  const idle = mock((): null => null);
+  registerJobControl(proc, () => resume);
+  registerJobControl(proc, idle);
+
+  // Act
+  proc.emit('SIGTSTP', 'SIGTSTP');
+  const listenersWhileStopped = proc.listenerCount('SIGTSTP');
+  proc.emit('SIGCONT', 'SIGCONT');
+
+  // Assert
+  expect(idle).toHaveBeenCalledTimes(1);
+  expect(proc.kill).toHaveBeenCalledWith(1234, 'SIGTSTP');
+  expect(listenersWhileStopped).toBe(0);
+  expect(resume).toHaveBeenCalledTimes(1);
+  expect(proc.listenerCount('SIGTSTP')).toBe(1);
+});
+
+test('registerJobControl should leave SIGTSTP to an application that handles it', () => {
+  // Arrange
+  const proc = makeFakeProcess();
+  const onStop = mock((): null => null);
+  registerJobControl(proc, onStop);
+  proc.on('SIGTSTP', () => {});
+
+  // Act
+  proc.emit('SIGTSTP', 'SIGTSTP');
+
+  // Assert
+  expect(onStop).not.toHaveBeenCalled();
+  expect(proc.kill).not.toHaveBeenCalled();
+});
@@ -0,0 +1,177 @@
+import type { ProcessLike } from '../types';
+
+const SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+
+type Hooks = {
+  cleanups: Set<() => void>;
+  uninstall: () => void;
+};
+
+// One set of listeners per process, shared by every Mouse instance that opted in
+const installed = new Map<ProcessLike, Hooks>();
+
+function runCleanups(hooks: Hooks): void {
+  for (const cleanup of [...hooks.cleanups]) {
+    try {
+      cleanup();
+    } catch {
+      // Keep restoring the other instances; the process is going down anyway
+    }
+  }
+}
+
+function install(proc: ProcessLike): Hooks {
+  const hooks: Hooks = { cleanups: new Set(), uninstall: () => {} };
+
+  const onExit = (): void => {
+    runCleanups(hooks);
+  };
+
+  const onException = (): void => {
+    // An application with its own handler keeps running, and so does its mouse
+    if (proc.listenerCount('uncaughtException') > 0) {
+      return;
+    }
+
+    runCleanups(hooks);
+  };
+
+  const onSignal = (signal: NodeJS.Signals): void => {
+    // Other listeners decide themselves whether the process exits; the exit hook covers that case
+    if (proc.listenerCount(signal) > 1) {
+      return;
+    }
+
+    // Listening to a signal cancels its default action, so restore the terminal and raise it again
+    runCleanups(hooks);
+    hooks.uninstall();
+    proc.kill(proc.pid, signal);
+  };
+
+  const onRejection = (reason: unknown): void => {
+    if (proc.listenerCount('unhandledRejection') > 1) {
+      return;
+    }
+
+    // Without other listeners the rejection would have crashed the process, so it still does
+    runCleanups(hooks);
+    throw reason;
+  };
+
+  proc.on('exit', onExit);
+  proc.on('uncaughtExceptionMonitor', onException);
+  proc.on('unhandledRejection', onRejection);
+  for (const signal of SIGNALS) {
+    proc.on(signal, onSignal);
+  }
+
+  hooks.uninstall = (): void => {
+    proc.off('exit', onExit);
+    proc.off('uncaughtExceptionMonitor', onException);
+    proc.off('unhandledRejection', onRejection);
+    for (const signal of SIGNALS) {
+      proc.off(signal, onSignal);
+    }
+    installed.delete(proc);
+  };
+
+  installed.set(proc, hooks);
+  return hooks;
+}
+
+/**
+ * Calls `cleanup` when the process exits, is terminated by a signal, or crashes.
+ * Registering the same cleanup twice has no effect.
+ * @param proc The process to watch.
+ * @param cleanup Restores the terminal. Must be safe to call more than once.
+ * @returns A function that unregisters the cleanup, removing the process listeners once none are left.
+ */
+function registerSafetyHooks(proc: ProcessLike, cleanup: () => void): () => void {
+  const hooks = installed.get(proc) ?? install(proc);
+  hooks.cleanups.add(cleanup);
+
+  return (): void => {
+    hooks.cleanups.delete(cleanup);
+    if (hooks.cleanups.size === 0 && installed.get(proc) === hooks) {
+      hooks.uninstall();
+    }
+  };
+}
+
+type JobControl = {
+  onStops: Set<() => (() => void) | null>;
+  uninstall: () => void;
+};
+
+const installedJobControl = new Map<ProcessLike, JobControl>();
+
+function installJobControl(proc: ProcessLike): JobControl {
+  const jobControl: JobControl = { onStops: new Set(), uninstall: () => {} };
+  let resumes: (() => void)[] = [];
+  let listening = true;
+
+  const onStop = (): void => {
+    // An application with its own SIGTSTP listener suspends and stops the process itself
+    if (proc.listenerCount('SIGTSTP') > 1) {
+      return;
+    }
+
+    for (const stop of jobControl.onStops) {
+      const resume = stop();
+      if (resume) {
+        resumes.push(resume);
+      }
+    }
+
+    // Listening to SIGTSTP cancels the stop, so raise it again without our listener
+    proc.off('SIGTSTP', onStop);
+    listening = false;
+    proc.kill(proc.pid, 'SIGTSTP');
+  };
+
+  const onContinue = (): void => {
+    if (!listening && installedJobControl.get(proc) === jobControl) {
+      proc.on('SIGTSTP', onStop);
+      listening = true;
+    }
+
+    const pending = resumes;
+    resumes = [];
+    for (const resume of pending) {
+      resume();
+    }
+  };
+
+  proc.on('SIGTSTP', onStop);
+  proc.on('SIGCONT', onContinue);
+
+  jobControl.uninstall = (): void => {
+    proc.off('SIGTSTP', onStop);
+    proc.off('SIGCONT', onContinue);
+    installedJobControl.delete(proc);
+  };
+
+  installedJobControl.set(proc, jobControl);
+  return jobControl;
+}
+
+/**
+ * Calls `onStop` when the process is about to be stopped by `SIGTSTP`, and the function it
+ * returns once the process continues after `SIGCONT`.
+ * @param proc The process to watch.
+ * @param onStop Suspends terminal handling and returns how to resume it, or null if there is nothing to resume.
+ * @returns A function that unregisters the callback, removing the process listeners once none are left.
+ */
+function registerJobControl(proc: ProcessLike, onStop: () => (() => void) | null): () => void {
+  const jobControl = installedJobControl.get(proc) ?? installJobControl(proc);
+  jobControl.onStops.add(onStop);
+
+  return (): void => {
+    jobControl.onStops.delete(onStop);
+    if (jobControl.onStops.size === 0 && installedJobControl.get(proc) === jobControl) {
+      jobControl.uninstall();
+    }
+  };
+}
+
+export { registerSafetyHooks, registerJobControl };
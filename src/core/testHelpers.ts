@@ -0,0 +1,62 @@
+import { EventEmitter } from 'node:events';
+
+import type { ReadableStreamWithEncoding } from '../types';
+
+/**
+ * Creates a fake TTY input stream that records raw mode and encoding changes.
+ * @returns {ReadableStreamWithEncoding} The fake stream. Emit `data` on it to simulate input.
+ */
+function makeFakeTTYStream(): ReadableStreamWithEncoding {
+  const fake = new EventEmitter() as ReadableStreamWithEncoding;
+  fake.isTTY = true;
+  fake.isRaw = false;
+  fake.readableEncoding = null;
+
+  fake.setRawMode = (mode: boolean): ReadableStreamWithEncoding => {
+    fake.isRaw = mode;
+    return fake;
+  };
+
+  fake.setEncoding = (enc: BufferEncoding): ReadableStreamWithEncoding => {
+    fake.readableEncoding = enc;
+    return fake;
+  };
+
+  fake.resume = (): ReadableStreamWithEncoding => fake;
+  fake.pause = (): ReadableStreamWithEncoding => fake;
+
+  // Preserve original EventEmitter methods for proper event handling
+  const originalOn = fake.on.bind(fake);
+  const originalOff = fake.off.bind(fake);
+
+  // biome-ignore lint/suspicious/noExplicitAny: original EventEmitter methods
+  fake.on = (event: string, listener: (...args: any[]) => void): ReadableStreamWithEncoding => {
+    originalOn(event, listener);
+    return fake;
+  };
+
+  fake.off = (event: string, listener: (...args: unknown[]) => void): ReadableStreamWithEncoding => {
+    originalOff(event, listener);
+    return fake;
+  };
+
+  return fake;
+}
+
+/**
+ * Creates a fake output stream that records what is written to it.
+ * @returns The fake stream and the list of writes.
+ */
+function makeFakeOutputStream(): { stream: NodeJS.WriteStream; writes: string[] } {
+  const writes: string[] = [];
+  const stream = {
+    write: (data: string): boolean => {
+      writes.push(data);
+      return true;
+    },
+  } as NodeJS.WriteStream;
+
+  return { stream, writes };
+}
+
+export { makeFakeOutputStream, makeFakeTTYStream };
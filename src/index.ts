@@ -1,2 +1,3 @@
 export * from './core/Mouse';
+export * from './core/RegionManager';
 export * from './types';
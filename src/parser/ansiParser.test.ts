@@ -1,6 +1,8 @@
 import { expect, test, describe } from 'bun:test';
 
-import { parseMouseEvents } from './ansiParser';
+import type { CellSize, MouseEvent } from '../types';
+
+import { parseMouseEvents, tokenizeInput, MouseParser, type InputToken } from './ansiParser';
 
 // Test data
 const SGR_PRESS_LEFT = '\x1b[<0;10;20M';
@@ -22,6 +24,25 @@ const ESC_WHEEL_UP = '\x1b[M`#4';
 const ESC_WHEEL_DOWN = '\x1b[Ma#4';
 const ESC_MOVE = '\x1b[MC#4';
 
+const URXVT_PRESS_LEFT = '\x1b[32;10;20M';
+const URXVT_PRESS_MIDDLE = '\x1b[33;10;20M';
+const URXVT_PRESS_RIGHT = '\x1b[34;10;20M';
+const URXVT_RELEASE = '\x1b[35;10;20M';
+const URXVT_DRAG_LEFT = '\x1b[64;10;20M';
+const URXVT_WHEEL_UP = '\x1b[96;10;20M';
+const URXVT_WHEEL_DOWN = '\x1b[97;10;20M';
+const URXVT_MOVE = '\x1b[67;10;20M';
+
+const UTF8_PRESS_LEFT = '\x1b[M #4'; // button 0, x=3, y=20
+const UTF8_PRESS_MIDDLE = '\x1b[M!#4';
+const UTF8_PRESS_RIGHT = '\x1b[M"#4';
+const UTF8_RELEASE = '\x1b[M##4';
+const UTF8_DRAG_LEFT = '\x1b[M@#4';
+const UTF8_WHEEL_UP = '\x1b[M`#4';
+const UTF8_WHEEL_DOWN = '\x1b[Ma#4';
+const UTF8_MOVE = '\x1b[MC#4';
+const UTF8_PRESS_FAR = `\x1b[M ${String.fromCharCode(300 + 32)}${String.fromCharCode(1000 + 32)}`; // x=300, y=1000
+
 test('parseMouseEvents should return an empty array for invalid input', () => {
   const events = [...parseMouseEvents('invalid string')];
   expect(events).toEqual([]);
@@ -167,6 +188,303 @@ test('parseMouseEvents should handle all ESC variations', () => {
   }
 });
 
+describe('ESC protocol beyond column 95', () => {
+  const fromBytes = (bytes: number[], encoding: BufferEncoding): string =>
+    `\x1b[M${Buffer.from(bytes).toString(encoding)}`;
+
+  test('should parse coordinates above 95 from latin1-decoded input', () => {
+    const events = [...parseMouseEvents(fromBytes([0x20, 0x84, 0x34], 'latin1'), { inputEncoding: 'latin1' })];
+    expect(events.length).toBe(1);
+    expect(events[0]?.protocol).toBe('ESC');
+    expect(events[0]?.x).toBe(100);
+    expect(events[0]?.y).toBe(20);
+  });
+
+  test('should parse the largest representable coordinate', () => {
+    const events = [...parseMouseEvents(fromBytes([0x20, 0xff, 0xff], 'latin1'), { inputEncoding: 'latin1' })];
+    expect(events[0]?.x).toBe(223);
+    expect(events[0]?.y).toBe(223);
+  });
+
+  test('should recover coordinate bytes that merged into one UTF-8 character', () => {
+    // 0xc3 0xa9 is valid UTF-8 and decodes to a single character
+    const input = fromBytes([0x20, 0xc3, 0xa9], 'utf8');
+    expect(input.length).toBe(5);
+
+    const events = [...parseMouseEvents(input)];
+    expect(events.length).toBe(1);
+    expect(events[0]?.button).toBe('left');
+    expect(events[0]?.x).toBe(163);
+    expect(events[0]?.y).toBe(137);
+  });
+
+  test('should report bytes lost in UTF-8 decoding as a diagnostic', () => {
+    const input = fromBytes([0x20, 0xff, 0x34], 'utf8');
+    const tokens = [...tokenizeInput(`${input}${SGR_PRESS_LEFT}`)];
+
+    expect(tokens[0]).toEqual({
+      type: 'diagnostic',
+      diagnostic: expect.objectContaining({ code: 'undecodable-byte', protocol: 'ESC', data: input }),
+    });
+    expect(tokens[1]?.type).toBe('mouse');
+  });
+
+  test('should report positions the protocol cannot represent as a diagnostic', () => {
+    const input = fromBytes([0x20, 0x00, 0x34], 'latin1');
+    const tokens = [...tokenizeInput(input)];
+
+    expect(tokens).toEqual([
+      {
+        type: 'diagnostic',
+        diagnostic: expect.objectContaining({ code: 'coordinate-out-of-range', protocol: 'ESC', data: input }),
+      },
+    ]);
+  });
+
+  test('should not parse a report with a button byte below 0x20', () => {
+    const tokens = [...tokenizeInput('\x1b[M\x01!!')];
+    expect(tokens).toEqual([{ type: 'text', text: '\x1b[M\x01!!' }]);
+  });
+});
+
+describe('URXVT protocol', () => {
+  test('should correctly parse a single press event', () => {
+    const events = [...parseMouseEvents(URXVT_PRESS_LEFT)];
+    expect(events.length).toBe(1);
+    const event = events[0];
+    expect(event?.protocol).toBe('URXVT');
+    expect(event?.action).toBe('press');
+    expect(event?.button).toBe('left');
+    expect(event?.x).toBe(10);
+    expect(event?.y).toBe(20);
+  });
+
+  test('should correctly parse a single release event', () => {
+    const events = [...parseMouseEvents(URXVT_RELEASE)];
+    expect(events.length).toBe(1);
+    const event = events[0];
+    expect(event?.protocol).toBe('URXVT');
+    expect(event?.action).toBe('release');
+    expect(event?.button).toBe('none');
+  });
+
+  test('should correctly parse a single wheel down event', () => {
+    const events = [...parseMouseEvents(URXVT_WHEEL_DOWN)];
+    expect(events.length).toBe(1);
+    const event = events[0];
+    expect(event?.protocol).toBe('URXVT');
+    expect(event?.action).toBe('wheel');
+    expect(event?.button).toBe('wheel-down');
+  });
+
+  test('should correctly parse a single wheel left event', () => {
+    const events = [...parseMouseEvents('\x1b[98;10;20M')];
+    expect(events[0]?.action).toBe('wheel');
+    expect(events[0]?.button).toBe('wheel-left');
+  });
+
+  test('should correctly parse a single wheel right event', () => {
+    const events = [...parseMouseEvents('\x1b[99;10;20M')];
+    expect(events[0]?.action).toBe('wheel');
+    expect(events[0]?.button).toBe('wheel-right');
+  });
+
+  test('should decode modifiers', () => {
+    const events = [...parseMouseEvents('\x1b[60;10;20M')]; // 28 = left + shift + alt + ctrl
+    expect(events[0]?.shift).toBe(true);
+    expect(events[0]?.alt).toBe(true);
+    expect(events[0]?.ctrl).toBe(true);
+  });
+
+  test('should parse coordinates beyond the legacy limit', () => {
+    const events = [...parseMouseEvents('\x1b[32;500;300M')];
+    expect(events[0]?.x).toBe(500);
+    expect(events[0]?.y).toBe(300);
+  });
+
+  test('should handle all variations', () => {
+    const inputs = {
+      URXVT_PRESS_MIDDLE,
+      URXVT_PRESS_RIGHT,
+      URXVT_DRAG_LEFT,
+      URXVT_WHEEL_UP,
+      URXVT_MOVE,
+    };
+
+    for (const key in inputs) {
+      const input = inputs[key as keyof typeof inputs];
+      const events = [...parseMouseEvents(input)];
+      expect(events.length).toBe(1);
+      expect(events[0]?.protocol).toBe('URXVT');
+    }
+  });
+
+  test('should handle concatenated events mixed with other protocols', () => {
+    const events = [...parseMouseEvents(URXVT_PRESS_LEFT + SGR_WHEEL_UP + URXVT_RELEASE)];
+
+    expect(events.map((event) => event.protocol)).toEqual(['URXVT', 'SGR', 'URXVT']);
+    expect(events[2]?.action).toBe('release');
+  });
+
+  test('should ignore other CSI sequences with numeric parameters', () => {
+    const events = [...parseMouseEvents(`\x1b[1;5A\x1b[2;3R${URXVT_PRESS_LEFT}`)];
+    expect(events.length).toBe(1);
+    expect(events[0]?.protocol).toBe('URXVT');
+  });
+});
+
+describe('UTF8 protocol', () => {
+  const parseUTF8 = (data: string): MouseEvent[] => [...parseMouseEvents(data, { encoding: 'utf8' })];
+
+  test('should correctly parse a single press event', () => {
+    const events = parseUTF8(UTF8_PRESS_LEFT);
+    expect(events.length).toBe(1);
+    const event = events[0];
+    expect(event?.protocol).toBe('UTF8');
+    expect(event?.action).toBe('press');
+    expect(event?.button).toBe('left');
+    expect(event?.x).toBe(3);
+    expect(event?.y).toBe(20);
+  });
+
+  test('should correctly parse a single release event', () => {
+    const events = parseUTF8(UTF8_RELEASE);
+    expect(events.length).toBe(1);
+    const event = events[0];
+    expect(event?.protocol).toBe('UTF8');
+    expect(event?.action).toBe('release');
+    expect(event?.button).toBe('none');
+  });
+
+  test('should correctly parse a single wheel down event', () => {
+    const events = parseUTF8(UTF8_WHEEL_DOWN);
+    expect(events.length).toBe(1);
+    const event = events[0];
+    expect(event?.protocol).toBe('UTF8');
+    expect(event?.action).toBe('wheel');
+    expect(event?.button).toBe('wheel-down');
+  });
+
+  test('should correctly parse a single wheel left event', () => {
+    const events = parseUTF8('\x1b[MbSJ');
+    expect(events[0]?.action).toBe('wheel');
+    expect(events[0]?.button).toBe('wheel-left');
+  });
+
+  test('should correctly parse a single wheel right event', () => {
+    const events = parseUTF8('\x1b[McSJ');
+    expect(events[0]?.action).toBe('wheel');
+    expect(events[0]?.button).toBe('wheel-right');
+  });
+
+  test('should parse coordinates beyond the legacy limit', () => {
+    const events = parseUTF8(UTF8_PRESS_FAR);
+    expect(events.length).toBe(1);
+    expect(events[0]?.x).toBe(300);
+    expect(events[0]?.y).toBe(1000);
+  });
+
+  test('should handle all variations', () => {
+    const inputs = {
+      UTF8_PRESS_MIDDLE,
+      UTF8_PRESS_RIGHT,
+      UTF8_DRAG_LEFT,
+      UTF8_WHEEL_UP,
+      UTF8_MOVE,
+    };
+
+    for (const key in inputs) {
+      const input = inputs[key as keyof typeof inputs];
+      const events = parseUTF8(input);
+      expect(events.length).toBe(1);
+      expect(events[0]?.protocol).toBe('UTF8');
+    }
+  });
+
+  test('should handle concatenated events', () => {
+    const events = parseUTF8(UTF8_PRESS_FAR + UTF8_DRAG_LEFT + UTF8_RELEASE);
+
+    expect(events.length).toBe(3);
+    expect(events[0]?.x).toBe(300);
+    expect(events[1]?.action).toBe('drag');
+    expect(events[2]?.action).toBe('release');
+  });
+
+  test('should be decoded as ESC without the utf8 encoding option', () => {
+    const events = [...parseMouseEvents(UTF8_PRESS_LEFT)];
+    expect(events[0]?.protocol).toBe('ESC');
+  });
+});
+
+describe('SGR-Pixels protocol', () => {
+  const parsePixels = (data: string, cellSize?: CellSize): MouseEvent[] => [
+    ...parseMouseEvents(data, { encoding: 'sgr-pixels', cellSize }),
+  ];
+
+  test('should correctly parse a single press event', () => {
+    const events = parsePixels('\x1b[<0;805;412M');
+    expect(events.length).toBe(1);
+    const event = events[0];
+    expect(event?.protocol).toBe('SGR-Pixels');
+    expect(event?.action).toBe('press');
+    expect(event?.button).toBe('left');
+    expect(event?.protocol === 'SGR-Pixels' && event.pixelX).toBe(805);
+    expect(event?.protocol === 'SGR-Pixels' && event.pixelY).toBe(412);
+  });
+
+  test('should correctly parse a single release event', () => {
+    const events = parsePixels('\x1b[<0;805;412m');
+    expect(events[0]?.protocol).toBe('SGR-Pixels');
+    expect(events[0]?.action).toBe('release');
+    expect(events[0]?.button).toBe('left');
+  });
+
+  test('should correctly parse a single wheel up event', () => {
+    const events = parsePixels('\x1b[<64;805;412M');
+    expect(events[0]?.action).toBe('wheel');
+    expect(events[0]?.button).toBe('wheel-up');
+  });
+
+  test('should repeat pixel coordinates in x and y when the cell size is unknown', () => {
+    const events = parsePixels('\x1b[<35;805;412M');
+    expect(events[0]?.action).toBe('move');
+    expect(events[0]?.x).toBe(805);
+    expect(events[0]?.y).toBe(412);
+  });
+
+  test('should derive cell coordinates from the cell size', () => {
+    const cellSize = { width: 10, height: 20 };
+
+    expect(parsePixels('\x1b[<0;1;1M', cellSize)[0]).toMatchObject({ x: 1, y: 1 });
+    expect(parsePixels('\x1b[<0;10;20M', cellSize)[0]).toMatchObject({ x: 1, y: 1 });
+    expect(parsePixels('\x1b[<0;11;21M', cellSize)[0]).toMatchObject({ x: 2, y: 2 });
+    expect(parsePixels('\x1b[<0;805;412M', cellSize)[0]).toMatchObject({ x: 81, y: 21, pixelX: 805, pixelY: 412 });
+  });
+
+  test('should be decoded as SGR without the sgr-pixels encoding option', () => {
+    const events = [...parseMouseEvents('\x1b[<0;805;412M')];
+    expect(events[0]?.protocol).toBe('SGR');
+  });
+});
+
+describe('Cell size report', () => {
+  test('should be returned as a cell-size token', () => {
+    const tokens = [...tokenizeInput('a\x1b[6;20;10tb')];
+
+    expect(tokens).toEqual([
+      { type: 'text', text: 'a' },
+      { type: 'cell-size', cellSize: { width: 10, height: 20 } },
+      { type: 'text', text: 'b' },
+    ]);
+  });
+
+  test('should not leak a report without a usable size as text', () => {
+    const tokens = [...tokenizeInput('\x1b[6;0;0t')];
+
+    expect(tokens).toEqual([{ type: 'cell-size', cellSize: { width: 0, height: 0 } }]);
+  });
+});
+
 describe('Coverage-specific tests', () => {
   test('should parse SGR right-click', () => {
     const events = [...parseMouseEvents('\x1b[<2;10;20M')];
@@ -231,10 +549,30 @@ describe('Coverage-specific tests', () => {
     expect(events[1]?.button).toBe('wheel-up');
   });
 
-  test('parseMouseEvents should perform run-length deduplication', () => {
+  test('parseMouseEvents should keep repeated reports by default', () => {
+    const SGR_WHEEL_DOWN = '\x1b[<65;10;20M';
+    const SGR_PRESS = '\x1b[<0;10;20M';
+    const SGR_RELEASE = '\x1b[<0;10;20m';
+
+    const input = SGR_WHEEL_DOWN.repeat(3) + SGR_PRESS + SGR_RELEASE + SGR_PRESS + SGR_RELEASE;
+    const events = [...parseMouseEvents(input)];
+
+    expect(events.map((event) => event.action)).toEqual([
+      'wheel',
+      'wheel',
+      'wheel',
+      'press',
+      'release',
+      'press',
+      'release',
+    ]);
+  });
+
+  test('parseMouseEvents should perform run-length deduplication for the actions in the policy', () => {
     const SGR_EVENT_1 = '\x1b[<0;10;20M';
     const SGR_EVENT_2 = '\x1b[<1;11;21M';
     const ESC_EVENT_1 = '\x1b[M #4'; // button 0, x=3, y=20
+    const SGR_WHEEL_DOWN = '\x1b[<65;10;20M';
 
     const input =
       SGR_EVENT_1 + // First unique event
@@ -243,15 +581,279 @@ describe('Coverage-specific tests', () => {
       SGR_EVENT_2 + // New unique event
       SGR_EVENT_2 + // Duplicate, should be ignored
       ESC_EVENT_1 + // New unique event
-      SGR_EVENT_1; // New unique event (different from previous ESC_EVENT_1)
+      SGR_EVENT_1 + // New unique event (different from previous ESC_EVENT_1)
+      SGR_WHEEL_DOWN + // Wheel is not in the policy, so both are kept
+      SGR_WHEEL_DOWN;
 
-    const events = [...parseMouseEvents(input)];
+    const events = [...parseMouseEvents(input, { dedupe: { press: true } })];
 
-    expect(events.length).toBe(4); // SGR_EVENT_1, SGR_EVENT_2, ESC_EVENT_1, SGR_EVENT_1
+    expect(events.length).toBe(6); // SGR_EVENT_1, SGR_EVENT_2, ESC_EVENT_1, SGR_EVENT_1, SGR_WHEEL_DOWN x2
 
     expect(events[0]?.data).toBe(SGR_EVENT_1);
     expect(events[1]?.data).toBe(SGR_EVENT_2);
     expect(events[2]?.data).toBe(ESC_EVENT_1);
     expect(events[3]?.data).toBe(SGR_EVENT_1);
+    expect(events[4]?.data).toBe(SGR_WHEEL_DOWN);
+    expect(events[5]?.data).toBe(SGR_WHEEL_DOWN);
+  });
+});
+
+describe('Timestamps', () => {
+  test('should stamp every event in a chunk with the clock time', () => {
+    let calls = 0;
+    const clock = (): number => {
+      calls++;
+      return 123.5;
+    };
+
+    const events = [...parseMouseEvents(SGR_PRESS_LEFT + URXVT_RELEASE + ESC_MOVE, { clock })];
+
+    expect(events.map((event) => event.timestamp)).toEqual([123.5, 123.5, 123.5]);
+    expect(calls).toBe(1);
+  });
+
+  test('should default to performance.now()', () => {
+    const before = performance.now();
+    const events = [...parseMouseEvents(SGR_PRESS_LEFT)];
+
+    expect(events[0]?.timestamp).toBeGreaterThanOrEqual(before);
+    expect(events[0]?.timestamp).toBeLessThanOrEqual(performance.now());
+  });
+});
+
+describe('tokenizeInput', () => {
+  test('should split input into text and mouse tokens in order', () => {
+    const tokens = [...tokenizeInput(`ab${SGR_PRESS_LEFT}\x1b[A${SGR_RELEASE_LEFT}c`)];
+
+    expect(tokens.map((token) => token.type)).toEqual(['text', 'mouse', 'text', 'mouse', 'text']);
+    expect(tokens[0]).toEqual({ type: 'text', text: 'ab' });
+    expect(tokens[2]).toEqual({ type: 'text', text: '\x1b[A' });
+    expect(tokens[4]).toEqual({ type: 'text', text: 'c' });
+  });
+
+  test('should return malformed mouse sequences as text', () => {
+    const tokens = [...tokenizeInput('\x1b[<0;x;1M')];
+
+    expect(tokens).toEqual([{ type: 'text', text: '\x1b[<0;x;1M' }]);
+  });
+});
+
+describe('Capability replies', () => {
+  test('should tokenize DECRQM, DA1 and XTVERSION replies', () => {
+    const input = `\x1b[?1006;2$y\x1bP>|xterm(388)\x1b\\a\x1b[?64;1;22c`;
+    const tokens = [...tokenizeInput(input)];
+
+    expect(tokens).toEqual([
+      { type: 'mode-report', mode: 1006, state: 2, data: '\x1b[?1006;2$y' },
+      { type: 'terminal-version', version: 'xterm(388)', data: '\x1bP>|xterm(388)\x1b\\' },
+      { type: 'text', text: 'a' },
+      { type: 'device-attributes', attributes: [64, 1, 22], data: '\x1b[?64;1;22c' },
+    ]);
+  });
+
+  test('should leave other private sequences and escapes as text', () => {
+    const tokens = [...tokenizeInput('\x1b[?25h\x1bOA')];
+
+    expect(tokens).toEqual([{ type: 'text', text: '\x1b[?25h\x1bOA' }]);
+  });
+
+  test('should hold replies split across chunks', () => {
+    const parser = new MouseParser();
+
+    expect([...parser.push('\x1b[?1006;')]).toEqual([]);
+    expect([...parser.push('1$y\x1bP>|kit')]).toEqual([
+      { type: 'mode-report', mode: 1006, state: 1, data: '\x1b[?1006;1$y' },
+    ]);
+    expect([...parser.push('ty\x1b')]).toEqual([]);
+    expect([...parser.push('\\')]).toEqual([
+      { type: 'terminal-version', version: 'kitty', data: '\x1bP>|kitty\x1b\\' },
+    ]);
+  });
+});
+
+describe('Focus reports', () => {
+  test('should tokenize focus in and out', () => {
+    const tokens = [...tokenizeInput('\x1b[Ia\x1b[O', { clock: (): number => 5 })];
+
+    expect(tokens).toEqual([
+      { type: 'focus', event: { action: 'focus', timestamp: 5, data: '\x1b[I' } },
+      { type: 'text', text: 'a' },
+      { type: 'focus', event: { action: 'blur', timestamp: 5, data: '\x1b[O' } },
+    ]);
+  });
+
+  test('should hold a focus report split across chunks', () => {
+    const parser = new MouseParser({ clock: (): number => 0 });
+
+    expect([...parser.push('\x1b[')]).toEqual([]);
+    expect([...parser.push('O')]).toEqual([{ type: 'focus', event: { action: 'blur', timestamp: 0, data: '\x1b[O' } }]);
+  });
+});
+
+describe('Bracketed paste', () => {
+  test('should not parse mouse sequences inside pasted text', () => {
+    const tokens = [...tokenizeInput('a\x1b[200~x\x1b[<0;5;5My\x1b[201~\x1b[<0;1;1M', { clock: (): number => 5 })];
+
+    expect(tokens.map((token) => token.type)).toEqual(['text', 'paste', 'mouse']);
+    expect(tokens[1]).toEqual({
+      type: 'paste',
+      event: { text: 'x\x1b[<0;5;5My', timestamp: 5, data: '\x1b[200~x\x1b[<0;5;5My\x1b[201~' },
+    });
+  });
+
+  test('should hold a paste until its end marker arrives, even when markers are split', () => {
+    const parser = new MouseParser({ clock: (): number => 0 });
+
+    expect([...parser.push('a\x1b[20')]).toEqual([{ type: 'text', text: 'a' }]);
+    expect([...parser.push('0~\x1b[<0;5;')]).toEqual([]);
+    expect([...parser.push('5M\x1b[2')]).toEqual([]);
+    expect(parser.hasPending()).toBe(true);
+    expect(parser.isPasting()).toBe(true);
+    expect([...parser.push('01~b')]).toEqual([
+      {
+        type: 'paste',
+        event: { text: '\x1b[<0;5;5M', timestamp: 0, data: '\x1b[200~\x1b[<0;5;5M\x1b[201~' },
+      },
+      { type: 'text', text: 'b' },
+    ]);
+    expect(parser.hasPending()).toBe(false);
+  });
+
+  test('should emit an unterminated paste on flush as a partial paste and keep it open', () => {
+    const parser = new MouseParser({ clock: (): number => 0 });
+
+    expect([...parser.push('abc\x1b[200~hello\x1b[20')]).toEqual([{ type: 'text', text: 'abc' }]);
+    expect([...parser.flush()]).toEqual([
+      { type: 'paste', event: { text: 'hello', timestamp: 0, data: '\x1b[200~hello', partial: true } },
+    ]);
+    expect([...parser.flush()]).toEqual([]);
+    expect(parser.isPasting()).toBe(true);
+
+    expect([...parser.push('\x1b[<0;5;5M\x1b[201~xyz')]).toEqual([
+      { type: 'paste', event: { text: '\x1b[20\x1b[<0;5;5M', timestamp: 0, data: '\x1b[20\x1b[<0;5;5M\x1b[201~' } },
+      { type: 'text', text: 'xyz' },
+    ]);
+    expect(parser.hasPending()).toBe(false);
+  });
+
+  test('should emit a paste that reaches maxPasteLength in parts without parsing it', () => {
+    const parser = new MouseParser({ clock: (): number => 0, maxPasteLength: 8 });
+
+    expect([...parser.push('\x1b[200~1234')]).toEqual([]);
+    expect([...parser.push('5678\x1b[<0;5;5M')]).toEqual([
+      {
+        type: 'paste',
+        event: { text: '12345678\x1b[<0;5;5M', timestamp: 0, data: '\x1b[200~12345678\x1b[<0;5;5M', partial: true },
+      },
+    ]);
+    expect(parser.isPasting()).toBe(true);
+
+    const tokens = [...parser.push('x\x1b[<0;5;5Mtext\x1b[201~\x1b[<0;5;5M')];
+
+    expect(tokens.map((token) => token.type)).toEqual(['paste', 'mouse']);
+    expect(tokens[0]).toEqual({
+      type: 'paste',
+      event: { text: 'x\x1b[<0;5;5Mtext', timestamp: 0, data: 'x\x1b[<0;5;5Mtext\x1b[201~' },
+    });
+  });
+});
+
+describe('MouseParser', () => {
+  const eventsIn = (tokens: Iterable<InputToken>): MouseEvent[] =>
+    [...tokens].flatMap((token) => (token.type === 'mouse' ? [token.event] : []));
+
+  test('should decode text as UTF-8 when the input was decoded as latin1', () => {
+    const parser = new MouseParser({ encoding: 'x10', inputEncoding: 'latin1' });
+    const [first, second] = [0xc3, 0xa9].map((byte) => String.fromCharCode(byte));
+
+    expect([...parser.push(`a${first}`)]).toEqual([{ type: 'text', text: 'a' }]);
+    expect([...parser.push(`${second}b`)]).toEqual([{ type: 'text', text: 'éb' }]);
+  });
+
+  test('should hold an incomplete SGR sequence until it is completed', () => {
+    const parser = new MouseParser();
+
+    expect([...parser.push('\x1b[<0;10')]).toEqual([]);
+    expect(parser.hasPending()).toBe(true);
+
+    const events = eventsIn(parser.push(';20M'));
+    expect(events.length).toBe(1);
+    expect(events[0]?.x).toBe(10);
+    expect(events[0]?.y).toBe(20);
+    expect(parser.hasPending()).toBe(false);
+  });
+
+  test('should hold an incomplete ESC sequence until it is completed', () => {
+    const parser = new MouseParser();
+
+    expect([...parser.push('\x1b[M ')]).toEqual([]);
+    const events = eventsIn(parser.push('#4'));
+    expect(events.length).toBe(1);
+    expect(events[0]?.protocol).toBe('ESC');
+    expect(events[0]?.x).toBe(3);
+  });
+
+  test('should parse complete events before a trailing partial sequence', () => {
+    const parser = new MouseParser();
+
+    const events = eventsIn(parser.push(`${SGR_PRESS_LEFT}\x1b[<0`));
+    expect(events.length).toBe(1);
+    expect(parser.hasPending()).toBe(true);
+  });
+
+  test('should parse a sequence fed one byte at a time', () => {
+    const parser = new MouseParser();
+    const events: MouseEvent[] = [];
+
+    for (const byte of SGR_WHEEL_UP) {
+      events.push(...eventsIn(parser.push(byte)));
+    }
+
+    expect(events.length).toBe(1);
+    expect(events[0]?.button).toBe('wheel-up');
+  });
+
+  test('should return an incomplete sequence as text on flush', () => {
+    const parser = new MouseParser();
+
+    parser.push('\x1b[<0;10');
+    expect([...parser.flush()]).toEqual([{ type: 'text', text: '\x1b[<0;10' }]);
+    expect(parser.hasPending()).toBe(false);
+    expect(eventsIn(parser.push(';20M'))).toEqual([]);
+  });
+
+  test('should not hold an ESC report whose bytes merged into fewer characters', () => {
+    const parser = new MouseParser();
+
+    const events = eventsIn(parser.push(`\x1b[M ${Buffer.from([0xc3, 0xa9]).toString('utf8')}`));
+    expect(events.length).toBe(1);
+    expect(events[0]?.x).toBe(163);
+    expect(parser.hasPending()).toBe(false);
+  });
+
+  test('should hold a lone ESC until flushed', () => {
+    const parser = new MouseParser();
+
+    expect([...parser.push('q\x1b')]).toEqual([{ type: 'text', text: 'q' }]);
+    expect([...parser.flush()]).toEqual([{ type: 'text', text: '\x1b' }]);
+  });
+
+  test('should discard buffered input on reset', () => {
+    const parser = new MouseParser();
+
+    parser.push('\x1b[');
+    parser.reset();
+    expect(parser.hasPending()).toBe(false);
+  });
+
+  test('should collapse repeated reports across chunks and forget them on reset', () => {
+    const parser = new MouseParser({ dedupe: { move: true } });
+    const MOVE = '\x1b[<35;10;20M';
+
+    expect(eventsIn(parser.push(MOVE))).toHaveLength(1);
+    expect(eventsIn(parser.push(MOVE))).toHaveLength(0);
+
+    parser.reset();
+    expect(eventsIn(parser.push(MOVE))).toHaveLength(1);
   });
 });
@@ -1,6 +1,27 @@
-import type { ButtonType, SGRMouseEvent, ESCMouseEvent, MouseEventAction } from '../types';
+import { StringDecoder } from 'node:string_decoder';
 
-import { ANSI_RESPONSE_PATTERNS } from './constants.ts';
+import type {
+  ButtonType,
+  SGRMouseEvent,
+  ESCMouseEvent,
+  URXVTMouseEvent,
+  UTF8MouseEvent,
+  SGRPixelsMouseEvent,
+  MouseDiagnostic,
+  CellSize,
+  DedupePolicy,
+  FocusEvent,
+  MouseEvent,
+  MouseEventAction,
+  MouseEncoding,
+  PasteEvent,
+} from '../types';
+
+import { ANSI_RESPONSE_PATTERNS, PASTE_MARKERS } from './constants.ts';
+
+function isDigit(char: string | undefined): boolean {
+  return char !== undefined && char >= '0' && char <= '9';
+}
 
 function decodeSGRButton(code: number): { button: ButtonType; action: MouseEventAction } {
   const motion = !!(code & 32);
@@ -116,7 +137,7 @@ function decodeESCButton(code: number): { button: ButtonType; action: MouseEvent
   return { button, action };
 }
 
-function parseSGRMouseEvent(data: string, start: number): [SGRMouseEvent | null, number] {
+function parseSGRMouseEvent(data: string, start: number, timestamp: number): [SGRMouseEvent | null, number] {
   const match = data.substring(start).match(ANSI_RESPONSE_PATTERNS.sgrPattern);
 
   if (!match) {
@@ -147,13 +168,147 @@ function parseSGRMouseEvent(data: string, start: number): [SGRMouseEvent | null,
     ctrl: !!(b & 16),
     raw: b,
     data: fullMatch,
+    timestamp,
+  };
+
+  return [event, start + fullMatch.length];
+}
+
+/**
+ * Recovers the three raw bytes of a legacy report that follow `ESC [ M`.
+ * Bytes above 0x7f only survive as themselves in latin1-decoded input. When the input was
+ * decoded as UTF-8, neighbouring bytes may have merged into one character, which is re-encoded
+ * to get them back, or have been replaced with U+FFFD, in which case the byte is lost (null).
+ */
+function readLegacyBytes(
+  data: string,
+  start: number,
+  inputEncoding: InputEncoding,
+): { bytes: (number | null)[]; end: number } | null {
+  const bytes: (number | null)[] = [];
+  let index = start + 3;
+
+  while (bytes.length < 3 && index < data.length) {
+    const code = data.codePointAt(index) ?? 0;
+    const char = String.fromCodePoint(code);
+    index += char.length;
+
+    if (code < 0x80 || inputEncoding === 'latin1') {
+      bytes.push(code);
+    } else if (code === 0xfffd) {
+      bytes.push(null);
+    } else {
+      bytes.push(...Buffer.from(char, 'utf8'));
+    }
+  }
+
+  return bytes.length < 3 ? null : { bytes: bytes.slice(0, 3), end: index };
+}
+
+function parseESCMouseEvent(
+  data: string,
+  start: number,
+  timestamp: number,
+  inputEncoding: InputEncoding,
+): [ESCMouseEvent | null, number, MouseDiagnostic | null] {
+  const report = readLegacyBytes(data, start, inputEncoding);
+
+  if (!report) {
+    return [null, start + 1, null];
+  }
+
+  const [b = null, bx = null, by = null] = report.bytes;
+
+  // Button bytes below 0x20 are never sent, so this is some other sequence
+  if (b !== null && b < 0x20) {
+    return [null, start + 1, null];
+  }
+
+  const fullMatch = data.substring(start, report.end);
+
+  if (b === null || bx === null || by === null) {
+    const diagnostic: MouseDiagnostic = {
+      code: 'undecodable-byte',
+      protocol: 'ESC',
+      message: 'ESC mouse report contains a byte that was lost while decoding the input as UTF-8',
+      data: fullMatch,
+    };
+    return [null, start + fullMatch.length, diagnostic];
+  }
+
+  // Terminals send a byte below 0x20 (usually NUL) for positions past column or row 223
+  if (bx < 0x20 || by < 0x20) {
+    const diagnostic: MouseDiagnostic = {
+      code: 'coordinate-out-of-range',
+      protocol: 'ESC',
+      message: 'ESC mouse report position is beyond the 223 columns and rows the protocol can represent',
+      data: fullMatch,
+    };
+    return [null, start + fullMatch.length, diagnostic];
+  }
+
+  const cb = b - 32;
+  const cx = bx - 32;
+  const cy = by - 32;
+
+  const { button, action } = decodeESCButton(cb);
+
+  const event: ESCMouseEvent = {
+    protocol: 'ESC',
+    x: cx,
+    y: cy,
+    button,
+    action,
+    shift: !!(cb & 4),
+    alt: !!(cb & 8),
+    ctrl: !!(cb & 16),
+    raw: cb,
+    data: fullMatch,
+    timestamp,
+  };
+
+  return [event, start + fullMatch.length, null];
+}
+
+function parseURXVTMouseEvent(data: string, start: number, timestamp: number): [URXVTMouseEvent | null, number] {
+  const match = data.substring(start).match(ANSI_RESPONSE_PATTERNS.urxvtPattern);
+
+  if (!match) {
+    return [null, start + 1];
+  }
+
+  const [fullMatch, bStr, xStr, yStr] = match as [string, string, string, string];
+
+  // The button code is offset by 32 like in the ESC protocol, but written in decimal
+  const cb = parseInt(bStr, 10) - 32;
+  const x = parseInt(xStr, 10);
+  const y = parseInt(yStr, 10);
+
+  if (Number.isNaN(cb) || Number.isNaN(x) || Number.isNaN(y) || cb < 0) {
+    return [null, start + 1];
+  }
+
+  const { button, action } = decodeESCButton(cb);
+
+  const event: URXVTMouseEvent = {
+    protocol: 'URXVT',
+    x,
+    y,
+    button,
+    action,
+    shift: !!(cb & 4),
+    alt: !!(cb & 8),
+    ctrl: !!(cb & 16),
+    raw: cb,
+    data: fullMatch,
+    timestamp,
   };
 
   return [event, start + fullMatch.length];
 }
 
-function parseESCMouseEvent(data: string, start: number): [ESCMouseEvent | null, number] {
-  const match = data.substring(start).match(ANSI_RESPONSE_PATTERNS.escPattern);
+function parseUTF8MouseEvent(data: string, start: number, timestamp: number): [UTF8MouseEvent | null, number] {
+  const match = data.substring(start).match(ANSI_RESPONSE_PATTERNS.utf8Pattern);
 
   if (!match) {
     return [null, start + 1];
@@ -161,14 +316,15 @@ function parseESCMouseEvent(data: string, start: number): [ESCMouseEvent | null,
 
   const [fullMatch, bChar, xChar, yChar] = match as [string, string, string, string];
 
+  // Same layout as the ESC protocol, but each value is a UTF-8 encoded character
   const cb = bChar.charCodeAt(0) - 32;
   const cx = xChar.charCodeAt(0) - 32;
   const cy = yChar.charCodeAt(0) - 32;
 
   const { button, action } = decodeESCButton(cb);
 
-  const event: ESCMouseEvent = {
-    protocol: 'ESC',
+  const event: UTF8MouseEvent = {
+    protocol: 'UTF8',
     x: cx,
     y: cy,
     button,
@@ -178,45 +334,527 @@ function parseESCMouseEvent(data: string, start: number): [ESCMouseEvent | null,
     ctrl: !!(cb & 16),
     raw: cb,
     data: fullMatch,
+    timestamp,
   };
 
   return [event, start + fullMatch.length];
 }
 
-function* parseMouseEvents(data: string): Generator<SGRMouseEvent | ESCMouseEvent> {
+function parseSGRPixelsMouseEvent(
+  data: string,
+  start: number,
+  timestamp: number,
+  cellSize: CellSize | undefined,
+): [SGRPixelsMouseEvent | null, number] {
+  const [sgrEvent, nextIndex] = parseSGRMouseEvent(data, start, timestamp);
+
+  if (!sgrEvent) {
+    return [null, nextIndex];
+  }
+
+  // Pixel positions are 1-based like cell positions, so the first pixel of a cell maps to its column
+  const pixelX = sgrEvent.x;
+  const pixelY = sgrEvent.y;
+
+  const event: SGRPixelsMouseEvent = {
+    ...sgrEvent,
+    protocol: 'SGR-Pixels',
+    x: cellSize ? Math.floor(Math.max(pixelX - 1, 0) / cellSize.width) + 1 : pixelX,
+    y: cellSize ? Math.floor(Math.max(pixelY - 1, 0) / cellSize.height) + 1 : pixelY,
+    pixelX,
+    pixelY,
+  };
+
+  return [event, nextIndex];
+}
+
+function parseCellSizeReport(data: string, start: number): [CellSize | null, number] {
+  const match = data.substring(start).match(ANSI_RESPONSE_PATTERNS.cellSizePattern);
+
+  if (!match) {
+    return [null, start + 1];
+  }
+
+  const [fullMatch, heightStr, widthStr] = match as [string, string, string];
+  // Some terminals answer with zeros when they do not know their cell size
+  const height = parseInt(heightStr, 10);
+  const width = parseInt(widthStr, 10);
+
+  return [{ width, height }, start + fullMatch.length];
+}
+
+function parseModeReport(data: string, start: number): [{ mode: number; state: number } | null, number] {
+  const match = data.substring(start).match(ANSI_RESPONSE_PATTERNS.modeReportPattern);
+
+  if (!match) {
+    return [null, start + 1];
+  }
+
+  const [fullMatch, modeStr, stateStr] = match as [string, string, string];
+  return [{ mode: parseInt(modeStr, 10), state: parseInt(stateStr, 10) }, start + fullMatch.length];
+}
+
+function parseDeviceAttributes(data: string, start: number): [number[] | null, number] {
+  const match = data.substring(start).match(ANSI_RESPONSE_PATTERNS.deviceAttributesPattern);
+
+  if (!match) {
+    return [null, start + 1];
+  }
+
+  const [fullMatch, attributesStr] = match as [string, string];
+  const attributes = attributesStr === '' ? [] : attributesStr.split(';').map((value) => parseInt(value, 10));
+  return [attributes, start + fullMatch.length];
+}
+
+function parseTerminalVersion(data: string, start: number): [string | null, number] {
+  const match = data.substring(start).match(ANSI_RESPONSE_PATTERNS.terminalVersionPattern);
+
+  if (!match) {
+    return [null, start + 1];
+  }
+
+  const [fullMatch, version] = match as [string, string];
+  return [version, start + fullMatch.length];
+}
+
+function parsePaste(data: string, start: number, timestamp: number): [PasteEvent, number] {
+  const contentStart = start + PASTE_MARKERS.start.length;
+  const end = data.indexOf(PASTE_MARKERS.end, contentStart);
+  // Without an end marker, the rest of the input is still pasted text
+  const contentEnd = end === -1 ? data.length : end;
+  const nextIndex = end === -1 ? data.length : end + PASTE_MARKERS.end.length;
+
+  return [
+    { text: data.substring(contentStart, contentEnd), timestamp, data: data.substring(start, nextIndex) },
+    nextIndex,
+  ];
+}
+
+/**
+ * Returns how many characters at the end of `data` could be the start of the paste end marker.
+ */
+function partialEndMarkerLength(data: string): number {
+  for (let length = Math.min(PASTE_MARKERS.end.length - 1, data.length); length > 0; length--) {
+    if (PASTE_MARKERS.end.startsWith(data.substring(data.length - length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * How the input string was decoded from the bytes the terminal sent.
+ */
+type InputEncoding = 'utf8' | 'latin1';
+
+/**
+ * Options for parsing mouse input.
+ */
+type ParserOptions = {
+  /**
+   * The encoding the terminal was asked to use. UTF-8 and X10 reports share the
+   * `ESC [ M` prefix, so this decides how those are decoded. Defaults to `sgr`.
+   */
+  encoding?: MouseEncoding;
+
+  /**
+   * The size of a character cell in pixels, used to derive cell coordinates
+   * from SGR-Pixels reports.
+   */
+  cellSize?: CellSize;
+
+  /**
+   * How the input was decoded into a string. Only matters for ESC reports, whose
+   * coordinate bytes above 0x7f are not valid UTF-8 on their own. Defaults to `utf8`.
+   * With `latin1`, `MouseParser` decodes text and pastes as UTF-8 before returning them.
+   */
+  inputEncoding?: InputEncoding;
+
+  /**
+   * Returns the current time in milliseconds for event timestamps.
+   * Defaults to `performance.now()`.
+   */
+  clock?: () => number;
+
+  /**
+   * Which actions drop a report that repeats the previous report byte for byte.
+   * Defaults to none.
+   */
+  dedupe?: DedupePolicy;
+
+  /**
+   * The longest paste `MouseParser` buffers while waiting for its end marker, in characters.
+   * A longer paste is emitted in parts, and is not parsed until its end marker. Defaults to 1048576.
+   */
+  maxPasteLength?: number;
+};
+
+const defaultClock = (): number => performance.now();
+
+/**
+ * A piece of parsed input: a mouse event, a terminal reply, or a run of other input
+ * (keystrokes, pasted text, unrelated escape sequences) with mouse sequences removed.
+ * Replies to capability queries keep their raw `data`, since they may answer someone else's query.
+ */
+type InputToken =
+  | { type: 'mouse'; event: MouseEvent }
+  | { type: 'diagnostic'; diagnostic: MouseDiagnostic }
+  | { type: 'text'; text: string }
+  | { type: 'cell-size'; cellSize: CellSize }
+  | { type: 'focus'; event: FocusEvent }
+  | { type: 'paste'; event: PasteEvent }
+  | { type: 'mode-report'; mode: number; state: number; data: string }
+  | { type: 'device-attributes'; attributes: number[]; data: string }
+  | { type: 'terminal-version'; version: string; data: string };
+
+/**
+ * The last mouse report seen, carried across chunks by `MouseParser`.
+ */
+type DedupeState = { lastEventData: string | null };
+
+function* deduplicate(tokens: Iterable<InputToken>, policy: DedupePolicy, state: DedupeState): Generator<InputToken> {
+  for (const token of tokens) {
+    if (token.type === 'mouse') {
+      const { event } = token;
+      const action = event.action as keyof DedupePolicy;
+      // Run-length deduplication, only for the actions that opted in
+      if (policy[action] && event.data === state.lastEventData) {
+        continue;
+      }
+      state.lastEventData = event.data;
+    }
+    yield token;
+  }
+}
+
+function tokenizeInput(data: string, options: ParserOptions = {}): Generator<InputToken> {
+  return deduplicate(tokenizeChunk(data, options), options.dedupe ?? {}, { lastEventData: null });
+}
+
+function* tokenizeChunk(data: string, options: ParserOptions): Generator<InputToken> {
+  const encoding = options.encoding ?? 'sgr';
+  const inputEncoding = options.inputEncoding ?? 'utf8';
+  // Everything in one chunk arrived at the same time
+  const timestamp = (options.clock ?? defaultClock)();
   let i = 0;
-  let lastEventData: string | null = null;
+  let textStart = 0;
 
   while (i < data.length) {
-    const escIndex = data.indexOf('\x1b[', i);
+    const escIndex = data.indexOf('\x1b', i);
     if (escIndex === -1) {
       break;
     }
 
     i = escIndex;
-    let event: SGRMouseEvent | ESCMouseEvent | null = null;
+    let event: MouseEvent | null = null;
+    let token: InputToken | null = null;
     let nextIndex: number;
 
-    if (data[i + 2] === '<') {
+    if (data[i + 1] !== '[') {
+      // Not a CSI sequence, but possibly a reply to a version query
+      let version: string | null;
+      [version, nextIndex] = parseTerminalVersion(data, i);
+      token = version === null ? null : { type: 'terminal-version', version, data: data.substring(i, nextIndex) };
+    } else if (data[i + 2] === '<' && encoding === 'sgr-pixels') {
+      // Potential SGR-Pixels event; the cell size is read here so a reply earlier in the chunk applies
+      [event, nextIndex] = parseSGRPixelsMouseEvent(data, i, timestamp, options.cellSize);
+    } else if (data[i + 2] === '<') {
       // Potential SGR event
-      [event, nextIndex] = parseSGRMouseEvent(data, i);
+      [event, nextIndex] = parseSGRMouseEvent(data, i, timestamp);
+    } else if (data[i + 2] === 'M' && encoding === 'utf8') {
+      // Potential UTF-8 event
+      [event, nextIndex] = parseUTF8MouseEvent(data, i, timestamp);
     } else if (data[i + 2] === 'M') {
       // Potential ESC event
-      [event, nextIndex] = parseESCMouseEvent(data, i);
+      let diagnostic: MouseDiagnostic | null;
+      [event, nextIndex, diagnostic] = parseESCMouseEvent(data, i, timestamp, inputEncoding);
+      token = diagnostic ? { type: 'diagnostic', diagnostic } : null;
+    } else if (data.startsWith(PASTE_MARKERS.start, i)) {
+      // Pasted text is opaque, so sequences inside it are not parsed
+      let paste: PasteEvent;
+      [paste, nextIndex] = parsePaste(data, i, timestamp);
+      token = { type: 'paste', event: paste };
+    } else if (isDigit(data[i + 2])) {
+      // Potential URXVT event, otherwise possibly a reply to a cell size query
+      [event, nextIndex] = parseURXVTMouseEvent(data, i, timestamp);
+      if (!event) {
+        let cellSize: CellSize | null;
+        [cellSize, nextIndex] = parseCellSizeReport(data, i);
+        token = cellSize ? { type: 'cell-size', cellSize } : null;
+      }
+    } else if (data[i + 2] === 'I' || data[i + 2] === 'O') {
+      // Focus report: CSI I when the terminal gains focus, CSI O when it loses it
+      nextIndex = i + 3;
+      const action = data[i + 2] === 'I' ? 'focus' : 'blur';
+      token = { type: 'focus', event: { action, timestamp, data: data.substring(i, nextIndex) } };
+    } else if (data[i + 2] === '?') {
+      // Potential reply to a mode or device attributes query
+      let report: { mode: number; state: number } | null;
+      [report, nextIndex] = parseModeReport(data, i);
+      if (report) {
+        token = { type: 'mode-report', ...report, data: data.substring(i, nextIndex) };
+      } else {
+        let attributes: number[] | null;
+        [attributes, nextIndex] = parseDeviceAttributes(data, i);
+        token = attributes ? { type: 'device-attributes', attributes, data: data.substring(i, nextIndex) } : null;
+      }
     } else {
       // Unrecognized escape sequence, skip it
       nextIndex = i + 2;
     }
 
-    if (event) {
-      // Implement run-length deduplication
-      if (event.data !== lastEventData) {
-        yield event;
-        lastEventData = event.data;
+    if (event || token) {
+      if (i > textStart) {
+        yield { type: 'text', text: data.substring(textStart, i) };
       }
+      textStart = nextIndex;
+    }
+
+    if (event) {
+      yield { type: 'mouse', event };
+    } else if (token) {
+      yield token;
     }
     i = nextIndex;
   }
+
+  if (textStart < data.length) {
+    yield { type: 'text', text: data.substring(textStart) };
+  }
+}
+
+function* parseMouseEvents(data: string, options: ParserOptions = {}): Generator<MouseEvent> {
+  for (const token of tokenizeInput(data, options)) {
+    if (token.type === 'mouse') {
+      yield token.event;
+    }
+  }
+}
+
+/**
+ * A bracketed paste whose end marker has not arrived yet.
+ */
+type PendingPaste = {
+  /** The pasted text so far. */
+  chunks: string[];
+  length: number;
+  /** Trailing characters that may be the start of the end marker. */
+  held: string;
+  /** Whether part of the paste, with the start marker, was already emitted. */
+  started: boolean;
+};
+
+function* concat(parts: Iterable<InputToken>[]): Generator<InputToken> {
+  for (const part of parts) {
+    yield* part;
+  }
+}
+
+/**
+ * Stateful tokenizer for chunked input.
+ * A mouse sequence split across two reads is kept until the next chunk completes it,
+ * and a bracketed paste is kept until its end marker arrives. A paste that reaches
+ * `maxPasteLength` or is flushed before then is emitted in parts, and everything up to the
+ * end marker still counts as pasted text.
+ */
+class MouseParser {
+  private pending = '';
+
+  private paste: PendingPaste | null = null;
+
+  private dedupeState: DedupeState = { lastEventData: null };
+
+  private options: ParserOptions;
+
+  /** Turns latin1-decoded text back into UTF-8, keeping characters split across chunks. */
+  private textDecoder: StringDecoder | null;
+
+  /**
+   * @param options How to interpret ambiguous input.
+   */
+  constructor(options: ParserOptions = {}) {
+    this.options = { ...options };
+    this.textDecoder = options.inputEncoding === 'latin1' ? new StringDecoder('utf8') : null;
+  }
+
+  /**
+   * Sets the cell size used to derive cell coordinates from SGR-Pixels reports.
+   * Takes effect for the rest of a chunk that is currently being parsed.
+   * @param cellSize The size of a character cell in pixels.
+   */
+  public setCellSize(cellSize: CellSize): void {
+    this.options.cellSize = cellSize;
+  }
+
+  /**
+   * Parses a chunk of input, holding back a trailing incomplete sequence or an unfinished paste.
+   * @param chunk The newly received input.
+   * @returns A generator over the tokens completed by this chunk.
+   */
+  public push(chunk: string): Generator<InputToken> {
+    const parts: Iterable<InputToken>[] = [];
+    let data: string | null = chunk;
+
+    while (data !== null) {
+      data = this.paste !== null ? this.pushPaste(data, parts) : this.pushInput(data, parts);
+    }
+    return concat(parts);
+  }
+
+  /**
+   * Parses input outside of a paste.
+   * @returns The input after a paste start marker, or null if everything was consumed.
+   */
+  private pushInput(chunk: string, parts: Iterable<InputToken>[]): string | null {
+    const data = this.pending + chunk;
+    this.pending = '';
+
+    // Everything before a paste start marker is complete, since the marker follows it
+    const pasteStart = data.indexOf(PASTE_MARKERS.start);
+    if (pasteStart !== -1) {
+      parts.push(this.tokenize(data.substring(0, pasteStart)));
+      this.paste = { chunks: [], length: 0, held: '', started: false };
+      return data.substring(pasteStart + PASTE_MARKERS.start.length);
+    }
+
+    const match = data.match(ANSI_RESPONSE_PATTERNS.incompletePattern);
+    let end = match?.index ?? data.length;
+
+    // Two legacy report bytes can arrive as a single UTF-8 character, so count bytes instead
+    if (
+      end < data.length &&
+      data[end + 2] === 'M' &&
+      this.options.encoding !== 'utf8' &&
+      readLegacyBytes(data, end, this.options.inputEncoding ?? 'utf8') !== null
+    ) {
+      end = data.length;
+    }
+
+    this.pending = data.substring(end);
+    parts.push(this.tokenize(data.substring(0, end)));
+    return null;
+  }
+
+  /**
+   * Collects pasted text. Only the new input is searched for the end marker, so a long paste
+   * arriving in many chunks is not rescanned each time.
+   * @returns The input after the paste end marker, or null if the paste continues.
+   */
+  private pushPaste(chunk: string, parts: Iterable<InputToken>[]): string | null {
+    const paste = this.paste as PendingPaste;
+    const data = paste.held + chunk;
+    const end = data.indexOf(PASTE_MARKERS.end);
+
+    if (end !== -1) {
+      paste.chunks.push(data.substring(0, end));
+      parts.push([this.endPaste(PASTE_MARKERS.end)]);
+      return data.substring(end + PASTE_MARKERS.end.length);
+    }
+
+    const held = partialEndMarkerLength(data);
+    const text = data.substring(0, data.length - held);
+    paste.chunks.push(text);
+    paste.length += text.length;
+    paste.held = data.substring(data.length - held);
+
+    // Memory stays bounded, but the input stays pasted text until the end marker arrives
+    if (paste.length >= (this.options.maxPasteLength ?? 1048576)) {
+      parts.push([this.endPaste('')]);
+    }
+    return null;
+  }
+
+  /**
+   * Emits the paste collected so far. Without the end marker, the paste stays open.
+   */
+  private endPaste(endMarker: string): InputToken {
+    const paste = this.paste as PendingPaste;
+    const raw = paste.chunks.join('');
+    const text = this.textDecoder !== null ? Buffer.from(raw, 'latin1').toString('utf8') : raw;
+    const data = (paste.started ? '' : PASTE_MARKERS.start) + text + endMarker;
+
+    if (endMarker) {
+      this.paste = null;
+    } else {
+      this.paste = { chunks: [], length: 0, held: paste.held, started: true };
+    }
+
+    const timestamp = (this.options.clock ?? defaultClock)();
+    return { type: 'paste', event: endMarker ? { text, timestamp, data } : { text, timestamp, data, partial: true } };
+  }
+
+  /**
+   * Parses whatever is still buffered and clears the buffer.
+   * An incomplete sequence can no longer become a mouse event, so it is returned as text.
+   * A paste that has not ended is emitted as a partial paste and stays open, since the input
+   * up to its end marker is still pasted text.
+   * @returns A generator over the tokens in the buffered input.
+   */
+  public flush(): Generator<InputToken> {
+    if (this.paste !== null) {
+      return concat(this.paste.length > 0 ? [[this.endPaste('')]] : []);
+    }
+
+    const data = this.pending;
+    this.pending = '';
+    return this.tokenizeRest(data);
+  }
+
+  private *tokenizeRest(data: string): Generator<InputToken> {
+    yield* this.tokenize(data);
+
+    // Bytes of a character that never got completed
+    const rest = this.textDecoder?.end();
+    if (rest) {
+      yield { type: 'text', text: rest };
+    }
+  }
+
+  private tokenize(data: string): Generator<InputToken> {
+    // Runs of repeated reports can span chunks, so the last report is kept between calls
+    const tokens = deduplicate(tokenizeChunk(data, this.options), this.options.dedupe ?? {}, this.dedupeState);
+    return this.textDecoder !== null ? this.decodeText(tokens, this.textDecoder) : tokens;
+  }
+
+  private *decodeText(tokens: Iterable<InputToken>, decoder: StringDecoder): Generator<InputToken> {
+    for (const token of tokens) {
+      if (token.type !== 'text') {
+        yield token;
+        continue;
+      }
+
+      const text = decoder.write(Buffer.from(token.text, 'latin1'));
+      if (text) {
+        yield { type: 'text', text };
+      }
+    }
+  }
+
+  /**
+   * Checks if an incomplete sequence or an unfinished paste is waiting for more input.
+   * @returns {boolean} True if input is buffered, false otherwise.
+   */
+  public hasPending(): boolean {
+    return this.pending.length > 0 || this.paste !== null;
+  }
+
+  /**
+   * Checks if a paste is waiting for its end marker.
+   * @returns {boolean} True while a paste is being received.
+   */
+  public isPasting(): boolean {
+    return this.paste !== null;
+  }
+
+  /**
+   * Discards any buffered input and forgets the last report.
+   */
+  public reset(): void {
+    this.pending = '';
+    this.paste = null;
+    this.textDecoder?.end();
+    this.dedupeState = { lastEventData: null };
+  }
 }
 
-export { parseMouseEvents };
+export { parseMouseEvents, tokenizeInput, MouseParser, type InputToken, type InputEncoding, type ParserOptions };
@@ -1,27 +1,118 @@
+import type { MouseEncoding, MouseTrackingMode } from '../types';
+
 const ANSI_CODES = {
   // Terminal will send event on button pressed with mouse position
   // SET_VT200_MOUSE
-  mouseButton: { on: '\x1b[?1000h', off: '\x1b[?1000l' },
+  mouseButton: { mode: 1000, on: '\x1b[?1000h', off: '\x1b[?1000l' },
 
   // Terminal will send event on button pressed and mouse motion as long as a button is down, with mouse position
   // SET_BTN_EVENT_MOUSE
-  mouseDrag: { on: '\x1b[?1002h', off: '\x1b[?1002l' },
+  mouseDrag: { mode: 1002, on: '\x1b[?1002h', off: '\x1b[?1002l' },
 
   // Terminal will send event on button pressed and motion
   // SET_ANY_EVENT_MOUSE
-  mouseMotion: { on: '\x1b[?1003h', off: '\x1b[?1003l' },
+  mouseMotion: { mode: 1003, on: '\x1b[?1003h', off: '\x1b[?1003l' },
 
   // Another mouse protocol that extend coordinate mapping (without it, it supports only 223 rows and columns)
   // SET_SGR_EXT_MODE_MOUSE
-  mouseSGR: { on: '\x1b[?1006h', off: '\x1b[?1006l' },
+  mouseSGR: { mode: 1006, on: '\x1b[?1006h', off: '\x1b[?1006l' },
+
+  // Extends coordinates of the legacy protocol by encoding them as UTF-8 characters (up to 2015)
+  // SET_EXT_MODE_MOUSE
+  mouseUTF8: { mode: 1005, on: '\x1b[?1005h', off: '\x1b[?1005l' },
+
+  // Reports events as decimal parameters without the SGR release terminator
+  // SET_URXVT_EXT_MODE_MOUSE
+  mouseURXVT: { mode: 1015, on: '\x1b[?1015h', off: '\x1b[?1015l' },
+
+  // SGR protocol with coordinates in pixels instead of cells
+  // SET_PIXEL_POSITION_MOUSE
+  mouseSGRPixels: { mode: 1016, on: '\x1b[?1016h', off: '\x1b[?1016l' },
+
+  // Terminal will send CSI I when its window gains focus and CSI O when it loses it
+  // SET_FOCUS_EVENT_MOUSE
+  focus: { mode: 1004, on: '\x1b[?1004h', off: '\x1b[?1004l' },
+
+  // Terminal will wrap pasted text in CSI 200 ~ and CSI 201 ~
+  // SET_BRACKETED_PASTE
+  bracketedPaste: { mode: 2004, on: '\x1b[?2004h', off: '\x1b[?2004l' },
+};
+
+// Markers around pasted text while bracketed paste is on
+const PASTE_MARKERS = {
+  start: '\x1b[200~',
+  end: '\x1b[201~',
+};
+
+const ANSI_QUERIES = {
+  // Asks for the size of a character cell in pixels, answered with CSI 6 ; height ; width t
+  cellSize: '\x1b[16t',
+
+  // DECRQM: asks whether a private mode is known, answered with CSI ? mode ; state $ y
+  modeStatus: (mode: number): string => `\x1b[?${mode}$p`,
+
+  // DA1: asks for the primary device attributes, answered with CSI ? attributes c by virtually every terminal
+  deviceAttributes: '\x1b[c',
+
+  // XTVERSION: asks for the name and version of the terminal, answered with DCS > | text ST
+  terminalVersion: '\x1b[>0q',
+};
+
+type AnsiCodeName = keyof typeof ANSI_CODES;
+
+// Modes to turn on for each tracking level, in the order they are enabled
+const TRACKING_MODES: Record<MouseTrackingMode, AnsiCodeName[]> = {
+  click: ['mouseButton'],
+  drag: ['mouseButton', 'mouseDrag'],
+  any: ['mouseButton', 'mouseDrag', 'mouseMotion'],
+};
+
+// Modes to turn on for each encoding; X10 is the terminal default and needs none
+const ENCODING_MODES: Record<MouseEncoding, AnsiCodeName[]> = {
+  x10: [],
+  utf8: ['mouseUTF8'],
+  urxvt: ['mouseURXVT'],
+  sgr: ['mouseSGR'],
+  'sgr-pixels': ['mouseSGR', 'mouseSGRPixels'],
 };
 
 const ANSI_RESPONSE_PATTERNS = {
   // biome-ignore lint/suspicious/noControlCharactersInRegex: need for mouse events
-  sgrPattern: /\x1b\[<(\d+);(\d+);(\d+)([Mm])/,
+  sgrPattern: /^\x1b\[<(\d+);(\d+);(\d+)([Mm])/,
 
   // biome-ignore lint/suspicious/noControlCharactersInRegex: need for mouse events
-  escPattern: /\x1b\[M([\x20-\x7f])([\x20-\x7f])([\x20-\x7f])/,
+  urxvtPattern: /^\x1b\[(\d+);(\d+);(\d+)M/,
+
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: need for mouse events
+  utf8Pattern: /^\x1b\[M([\x20-\u07ff])([\x20-\u07ff])([\x20-\u07ff])/,
+
+  // Reply to the cell size query: CSI 6 ; height ; width t
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: need for terminal replies
+  cellSizePattern: /^\x1b\[6;(\d+);(\d+)t/,
+
+  // Reply to DECRQM: CSI ? mode ; state $ y
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: need for terminal replies
+  modeReportPattern: /^\x1b\[\?(\d+);(\d+)\$y/,
+
+  // Reply to DA1: CSI ? attributes c
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: need for terminal replies
+  deviceAttributesPattern: /^\x1b\[\?([\d;]*)c/,
+
+  // Reply to XTVERSION: DCS > | text ST
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: need for terminal replies
+  terminalVersionPattern: /^\x1bP>\|([^\x1b]*)\x1b\\/,
+
+  // Trailing prefix of a mouse sequence or terminal reply that the next chunk may complete
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: need for mouse events
+  incompletePattern: /\x1b(?:\[(?:<[\d;]*|M[\s\S]{0,2}|\d[\d;]*|\?[\d;]*\$?)?|P(?:>(?:\|[^\x1b]*\x1b?)?)?)?$/,
 };
 
-export { ANSI_CODES, ANSI_RESPONSE_PATTERNS };
+export {
+  ANSI_CODES,
+  ANSI_QUERIES,
+  ANSI_RESPONSE_PATTERNS,
+  PASTE_MARKERS,
+  TRACKING_MODES,
+  ENCODING_MODES,
+  type AnsiCodeName,
+};
@@ -1,19 +1,28 @@
 type NoneButton = 'none';
 
-export type ButtonType =
-  | NoneButton
-  | 'left'
-  | 'middle'
-  | 'right'
-  | 'wheel-up'
-  | 'wheel-down'
-  | 'wheel-left'
-  | 'wheel-right'
-  | 'back'
-  | 'forward'
-  | 'unknown';
-
-export type MouseEventAction = 'move' | 'release' | 'press' | 'drag' | 'wheel' | 'click';
+export type WheelButton = 'wheel-up' | 'wheel-down' | 'wheel-left' | 'wheel-right';
+
+export type ButtonType = NoneButton | 'left' | 'middle' | 'right' | WheelButton | 'back' | 'forward' | 'unknown';
+
+/**
+ * Every action a MouseEvent can carry, in the order they are listed in the docs.
+ */
+export const MOUSE_EVENT_ACTIONS = [
+  'move',
+  'release',
+  'press',
+  'drag',
+  'wheel',
+  'click',
+  'dblclick',
+  'tripleclick',
+  'dragstart',
+  'dragmove',
+  'dragend',
+  'scroll',
+] as const;
+
+export type MouseEventAction = (typeof MOUSE_EVENT_ACTIONS)[number];
 
 export type MouseEventBase = {
   x: number;
@@ -25,6 +34,8 @@ export type MouseEventBase = {
   ctrl: boolean;
   raw: number;
   data: string;
+  /** When the event was received, in milliseconds from a monotonic clock. */
+  timestamp: number;
 };
 
 export type SGRMouseEvent = MouseEventBase & {
@@ -35,7 +46,558 @@ export type ESCMouseEvent = MouseEventBase & {
   protocol: 'ESC';
 };
 
-export type MouseEvent = SGRMouseEvent | ESCMouseEvent;
+export type URXVTMouseEvent = MouseEventBase & {
+  protocol: 'URXVT';
+};
+
+export type UTF8MouseEvent = MouseEventBase & {
+  protocol: 'UTF8';
+};
+
+/**
+ * An SGR report with pixel coordinates. `x` and `y` are cell coordinates derived from the
+ * cell size when it is known, and repeat the pixel coordinates otherwise.
+ */
+export type SGRPixelsMouseEvent = MouseEventBase & {
+  protocol: 'SGR-Pixels';
+  pixelX: number;
+  pixelY: number;
+};
+
+export type MouseEvent = SGRMouseEvent | ESCMouseEvent | URXVTMouseEvent | UTF8MouseEvent | SGRPixelsMouseEvent;
+
+/**
+ * A synthesized `click`, `dblclick` or `tripleclick` event.
+ * `clickCount` is the number of clicks in a row at roughly the same position, starting at 1.
+ */
+export type MouseClickEvent = MouseEvent & {
+  clickCount: number;
+};
+
+/**
+ * A synthesized `dragstart`, `dragmove` or `dragend` event.
+ * `startX`/`startY` are where the button was pressed, and `deltaX`/`deltaY` the distance
+ * from there to the current position.
+ */
+export type MouseDragEvent = MouseEvent & {
+  startX: number;
+  startY: number;
+  deltaX: number;
+  deltaY: number;
+};
+
+/**
+ * A synthesized `scroll` event, merging a burst of `wheel` events.
+ * `deltaY` is negative when scrolling up and `deltaX` negative when scrolling left.
+ * `notches` is the number of wheel events merged into it, whatever their direction.
+ */
+export type MouseScrollEvent = MouseEvent & {
+  deltaX: number;
+  deltaY: number;
+  notches: number;
+};
+
+/**
+ * A `wheel` event, whose button is always one of the wheel buttons.
+ */
+export type WheelEvent = MouseEvent & {
+  action: 'wheel';
+  button: WheelButton;
+};
+
+export type FocusEventAction = 'focus' | 'blur';
+
+/**
+ * Reported when the terminal window gains (`focus`) or loses (`blur`) focus.
+ */
+export type FocusEvent = {
+  action: FocusEventAction;
+  /** When the event was received, in milliseconds from a monotonic clock. */
+  timestamp: number;
+  /** The raw event data. */
+  data: string;
+};
+
+/**
+ * Text pasted into the terminal while bracketed paste is on.
+ */
+export type PasteEvent = {
+  /** The pasted text, without the paste markers. It is never parsed for mouse events. */
+  text: string;
+  /** When the paste was completed, in milliseconds from a monotonic clock. */
+  timestamp: number;
+  /** The raw event data, including the paste markers that belong to this part of the paste. */
+  data: string;
+  /**
+   * True if the end marker had not arrived yet, because the paste was too long or went quiet.
+   * The rest of the paste follows in later `paste` events, the last of them without `partial`.
+   */
+  partial?: boolean;
+};
+
+/**
+ * The event types `Mouse.stream()` can yield.
+ */
+export type MouseStreamEventType = MouseEventAction | FocusEventAction | 'paste';
+
+/**
+ * An item yielded by `Mouse.stream()`: the event type and its event.
+ */
+export type MouseStreamEvent<K extends MouseStreamEventType = MouseStreamEventType> = {
+  [T in K]: { type: T; event: MouseEventMap[T] };
+}[K];
+
+/**
+ * The payload of every event `Mouse` emits, by event name.
+ */
+export type MouseEventMap = {
+  press: MouseEvent;
+  release: MouseEvent;
+  move: MouseEvent;
+  drag: MouseEvent;
+  wheel: WheelEvent;
+  click: MouseClickEvent;
+  dblclick: MouseClickEvent;
+  tripleclick: MouseClickEvent;
+  dragstart: MouseDragEvent;
+  dragmove: MouseDragEvent;
+  dragend: MouseDragEvent;
+  scroll: MouseScrollEvent;
+  focus: FocusEvent;
+  blur: FocusEvent;
+  paste: PasteEvent;
+  data: string;
+  diagnostic: MouseDiagnostic;
+  error: MouseError;
+};
+
+export type MouseEventName = keyof MouseEventMap;
+
+export type MouseEventListener<K extends MouseEventName> = (event: MouseEventMap[K]) => void;
+
+/**
+ * What an event queue does when an event arrives while it is full:
+ * - `drop-oldest` drops the oldest queued event to make room.
+ * - `drop-newest` drops the arriving event.
+ * - `error` drops the arriving event and makes the iterator throw a `MouseError`.
+ * - `block` keeps every event and pauses the input stream until the consumer catches up.
+ */
+export type QueueOverflowStrategy = 'drop-oldest' | 'drop-newest' | 'error' | 'block';
+
+/**
+ * Options for `Mouse.eventsOf()` and `Mouse.stream()`.
+ */
+export type EventQueueOptions = {
+  /** If true, only the latest event is buffered. Defaults to false. */
+  latestOnly?: boolean;
+  /** The maximum number of events to queue, up to 1000. */
+  maxQueue?: number;
+  /** What to do when an event arrives while the queue is full. Defaults to `drop-oldest`. */
+  overflow?: QueueOverflowStrategy;
+  /** Called with the total number of events dropped so far, each time the queue drops one. */
+  onDrop?: (dropped: number) => void;
+  /** An AbortSignal to cancel the async generator. */
+  signal?: AbortSignal;
+};
+
+/**
+ * Options for `Mouse.stream()`.
+ */
+export type StreamOptions<K extends MouseStreamEventType = MouseStreamEventType> = EventQueueOptions & {
+  /** The event types to yield. Defaults to every type `Mouse` emits. */
+  types?: readonly K[];
+  /** Only events for which this returns true are queued, so the others do not take up queue space. */
+  filter?: (item: MouseStreamEvent<K>) => boolean;
+};
+
+/**
+ * Options for `Mouse.waitFor()`, `Mouse.nextClick()` and `Mouse.nextPress()`.
+ */
+export type WaitForOptions<K extends MouseEventName = MouseEventName> = {
+  /** Only events for which this returns true are accepted. */
+  filter?: (event: MouseEventMap[K]) => boolean;
+  /** How long to wait in milliseconds before rejecting with a `MouseTimeoutError`. Waits forever by default. */
+  timeout?: number;
+  /** Rejects with a `MouseAbortError` when aborted. */
+  signal?: AbortSignal;
+};
+
+/**
+ * A rectangle in terminal cells. `x` and `y` are the 1-based column and row of its
+ * top-left cell, matching the coordinates of mouse events.
+ */
+export type Rect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * The events a region receives: every mouse action, plus `mouseenter` and `mouseleave`
+ * when the pointer moves onto or off the region.
+ */
+export type RegionEventType = MouseEventAction | 'mouseenter' | 'mouseleave';
+
+/**
+ * The stage of propagation an event is in: travelling down from the root region (`capture`),
+ * at the region that was hit (`target`), or travelling back up to the root (`bubble`).
+ */
+export type RegionEventPhase = 'capture' | 'target' | 'bubble';
+
+/**
+ * A mouse event delivered to a region.
+ * One instance travels along the whole propagation path, so listeners see each other's
+ * `stopPropagation()` and `preventDefault()` calls.
+ */
+export class RegionEvent {
+  /** The id of the region the event is currently being delivered to. */
+  public currentTarget: string;
+  /** The current propagation phase. */
+  public eventPhase: RegionEventPhase = 'target';
+  /** The 0-based column of the pointer relative to the left edge of `currentTarget`. */
+  public localX = 0;
+  /** The 0-based row of the pointer relative to the top edge of `currentTarget`. */
+  public localY = 0;
+
+  private propagationStopped = false;
+  private canceled = false;
+
+  /**
+   * @param type The type of the event.
+   * @param target The id of the region the event is dispatched to.
+   * @param event The underlying mouse event.
+   * @param bubbles Whether the event travels back up to the root after reaching its target.
+   */
+  constructor(
+    public readonly type: RegionEventType,
+    public readonly target: string,
+    public readonly event: MouseEvent,
+    public readonly bubbles = true,
+  ) {
+    this.currentTarget = target;
+  }
+
+  /**
+   * Stops the event from reaching any further regions.
+   * The remaining listeners of the current region are still called.
+   */
+  public stopPropagation(): void {
+    this.propagationStopped = true;
+  }
+
+  /**
+   * Marks the event as handled, so that outer regions can skip their own default handling.
+   */
+  public preventDefault(): void {
+    this.canceled = true;
+  }
+
+  /** Whether `stopPropagation()` was called. */
+  public get cancelBubble(): boolean {
+    return this.propagationStopped;
+  }
+
+  /** Whether `preventDefault()` was called. */
+  public get defaultPrevented(): boolean {
+    return this.canceled;
+  }
+}
+
+/**
+ * Reported instead of an event when a mouse report was received but cannot be decoded.
+ * - `coordinate-out-of-range`: the position is beyond what the protocol can represent.
+ * - `undecodable-byte`: part of the report was lost while decoding the input.
+ */
+export type MouseDiagnostic = {
+  code: 'coordinate-out-of-range' | 'undecodable-byte';
+  protocol: MouseEvent['protocol'];
+  message: string;
+  data: string;
+};
+
+/**
+ * The size of a character cell in pixels.
+ */
+export type CellSize = {
+  width: number;
+  height: number;
+};
+
+/**
+ * Which mouse activity the terminal reports.
+ * - `click`: button presses and releases only.
+ * - `drag`: presses, releases and motion while a button is held.
+ * - `any`: presses, releases and all motion.
+ */
+export type MouseTrackingMode = 'click' | 'drag' | 'any';
+
+/**
+ * How the terminal encodes mouse reports.
+ */
+export type MouseEncoding = 'sgr' | 'utf8' | 'urxvt' | 'x10' | 'sgr-pixels';
+
+/**
+ * Options for `Mouse.enable()`.
+ */
+export type MouseEnableOptions = {
+  /** Which mouse activity to report. Defaults to `any`. */
+  tracking?: MouseTrackingMode;
+  /**
+   * Which encoding to request. `auto` picks the best encoding found by `detectCapabilities()`.
+   * Defaults to `sgr`.
+   */
+  encoding?: MouseEncoding | 'auto';
+  /** If true, `focus` and `blur` events are reported. Defaults to false. */
+  focus?: boolean;
+  /**
+   * If true, bracketed paste is turned on and pasted text is emitted as a `paste` event
+   * instead of being parsed, so it cannot forge mouse events. Defaults to false.
+   */
+  paste?: boolean;
+};
+
+/**
+ * The tracking configuration that is active while the mouse is enabled.
+ */
+export type MouseConfig = {
+  tracking: MouseTrackingMode;
+  encoding: MouseEncoding;
+  focus: boolean;
+  paste: boolean;
+};
+
+/**
+ * What `Mouse.detectCapabilities()` found out about the terminal.
+ */
+export type MouseCapabilities = {
+  /**
+   * Whether the terminal answered the device attributes query before the timeout.
+   * If not, nothing else is known about it.
+   */
+  responded: boolean;
+
+  /**
+   * Whether the terminal answered mode queries (DECRQM). Terminals that ignore them may still support
+   * every mode, so `tracking` and `encodings` are only meaningful if this is true.
+   */
+  modesReported: boolean;
+
+  /** The tracking levels the terminal supports. */
+  tracking: MouseTrackingMode[];
+
+  /** The encodings the terminal supports, best first. */
+  encodings: MouseEncoding[];
+
+  /** Whether the terminal supports focus reporting. */
+  focus: boolean;
+
+  /** Whether the terminal supports bracketed paste. */
+  paste: boolean;
+
+  /** The primary device attributes (DA1), or null if the terminal did not answer. */
+  deviceAttributes: number[] | null;
+
+  /** The name and version of the terminal (XTVERSION), or null if the terminal did not answer. */
+  version: string | null;
+};
+
+/**
+ * Options for click synthesis.
+ */
+export type ClickOptions = {
+  /**
+   * If false, no click events are synthesized. Defaults to true.
+   */
+  enabled?: boolean;
+
+  /**
+   * The maximum distance, in cells, between a press and its release for them to
+   * count as a click. Defaults to 1.
+   */
+  tolerance?: number;
+
+  /**
+   * The maximum time, in milliseconds, a button may be held for its release to
+   * count as a click. Defaults to no limit.
+   */
+  maxDuration?: number;
+
+  /**
+   * The maximum time, in milliseconds, between two clicks for them to count as a
+   * double or triple click. Defaults to 500.
+   */
+  multiClickInterval?: number;
+
+  /**
+   * The maximum distance, in cells, between two clicks for them to count as a
+   * double or triple click. Defaults to 1.
+   */
+  multiClickDistance?: number;
+};
+
+/**
+ * Options for drag synthesis.
+ */
+export type DragOptions = {
+  /**
+   * How far, in cells, the pointer must move from where the button was pressed
+   * before `dragstart` is emitted. Defaults to 1.
+   */
+  threshold?: number;
+};
+
+/**
+ * Options for merging `wheel` events into `scroll` events.
+ */
+export type WheelOptions = {
+  /**
+   * If true, bursts of `wheel` events are merged into `scroll` events. Defaults to false.
+   */
+  enabled?: boolean;
+
+  /**
+   * How long, in milliseconds, to collect `wheel` events after the first one of a burst
+   * before emitting their `scroll` event. Defaults to 50.
+   */
+  window?: number;
+
+  /**
+   * The distance a single notch scrolls, in whatever unit the application scrolls by.
+   * Defaults to 1.
+   */
+  delta?: number;
+
+  /**
+   * Returns the factor to multiply a burst's delta by, given the number of notches in it
+   * and the time in milliseconds between its first and last notch. Defaults to no acceleration.
+   */
+  acceleration?: (notches: number, duration: number) => number;
+};
+
+/**
+ * How `move` and `drag` events are rate-limited.
+ * - `none`: every report is emitted.
+ * - `throttle`: at most `maxRate` events per second; the latest position is emitted at the end of each interval.
+ * - `tick`: at most one event per turn of the event loop.
+ * - `frame`: at most one event every `frameInterval` milliseconds, emitted at the end of the frame.
+ */
+export type MotionStrategy = 'none' | 'throttle' | 'tick' | 'frame';
+
+/**
+ * Options for coalescing `move` and `drag` events.
+ * Only the latest position is kept, and it is always emitted before any other event,
+ * so presses, releases and wheel events are never dropped or reordered.
+ */
+export type MotionOptions = {
+  /**
+   * How motion events are rate-limited. Defaults to `none`.
+   */
+  strategy?: MotionStrategy;
+
+  /**
+   * The maximum number of motion events per second for the `throttle` strategy. Defaults to 60.
+   */
+  maxRate?: number;
+
+  /**
+   * The length of a frame, in milliseconds, for the `frame` strategy. Defaults to 16.
+   */
+  frameInterval?: number;
+};
+
+/**
+ * Which reported actions collapse runs of identical reports into one event.
+ * An action that is left out or set to false keeps every report.
+ */
+export type DedupePolicy = Partial<Record<'move' | 'drag' | 'press' | 'release' | 'wheel', boolean>>;
+
+/**
+ * Options for configuring a Mouse instance.
+ */
+export type MouseOptions = {
+  /**
+   * How long, in milliseconds, an incomplete escape sequence is kept while waiting
+   * for the rest of it to arrive in a later chunk. Defaults to 100.
+   */
+  sequenceTimeout?: number;
+
+  /**
+   * How long, in milliseconds, a bracketed paste is kept while waiting for its end marker.
+   * If no more input arrives in time, the text so far is emitted as a partial paste, and the paste
+   * stays open until its end marker arrives. Defaults to 1000.
+   */
+  pasteTimeout?: number;
+
+  /**
+   * If true, input that is not part of a mouse sequence (keystrokes, pasted text,
+   * other escape sequences) is emitted as a `data` event, in its original order.
+   * Defaults to false, in which case such input is dropped.
+   */
+  passthrough?: boolean;
+
+  /**
+   * The size of a character cell in pixels, used to derive cell coordinates for the
+   * `sgr-pixels` encoding. If omitted, `enable()` asks the terminal for it.
+   */
+  cellSize?: CellSize;
+
+  /**
+   * Configures how `click`, `dblclick` and `tripleclick` events are synthesized.
+   */
+  click?: ClickOptions;
+
+  /**
+   * Configures how `dragstart`, `dragmove` and `dragend` events are synthesized.
+   */
+  drag?: DragOptions;
+
+  /**
+   * Configures how `wheel` events are merged into `scroll` events.
+   */
+  wheel?: WheelOptions;
+
+  /**
+   * Configures how `move` and `drag` events are coalesced.
+   */
+  motion?: MotionOptions;
+
+  /**
+   * Drops a report that repeats the previous one byte for byte, for the actions in the
+   * policy. `true` collapses `move` and `drag` reports only. Defaults to false, which keeps
+   * every report.
+   */
+  dedupe?: boolean | DedupePolicy;
+
+  /**
+   * Returns the current time in milliseconds. It stamps every event and drives all
+   * timing, so tests can substitute fake time. Defaults to `performance.now()`.
+   */
+  clock?: () => number;
+
+  /**
+   * If true, the terminal is restored when the process exits, receives `SIGINT`, `SIGTERM`
+   * or `SIGHUP`, or crashes on an uncaught exception or unhandled rejection while the mouse
+   * is enabled. Defaults to false.
+   */
+  safetyHooks?: boolean;
+
+  /**
+   * If true, the mouse is suspended when the process receives `SIGTSTP` and resumed when it
+   * receives `SIGCONT`. Defaults to false.
+   */
+  jobControl?: boolean;
+
+  /**
+   * The process to install safety hooks and job control on. Defaults to the global `process`.
+   */
+  process?: ProcessLike;
+};
+
+/**
+ * The parts of `process` that safety hooks use, so tests can substitute a fake.
+ */
+export type ProcessLike = Pick<NodeJS.Process, 'on' | 'off' | 'listenerCount' | 'kill' | 'pid'>;
 
 export interface ReadableStreamWithEncoding extends NodeJS.ReadStream {
   readableEncoding: BufferEncoding | null;
@@ -58,3 +620,33 @@ export class MouseError extends Error {
     this.name = 'MouseError';
   }
 }
+
+/**
+ * Thrown when waiting for an event took longer than the given timeout.
+ */
+export class MouseTimeoutError extends MouseError {
+  /**
+   * @param message The error message.
+   * @param timeout The timeout that elapsed, in milliseconds.
+   */
+  constructor(
+    message: string,
+    public timeout: number,
+  ) {
+    super(message);
+    this.name = 'MouseTimeoutError';
+  }
+}
+
+/**
+ * Thrown when waiting for an event was cancelled with an AbortSignal.
+ */
+export class MouseAbortError extends MouseError {
+  /**
+   * @param originalError The abort reason, if it is an error.
+   */
+  constructor(originalError?: Error) {
+    super('The operation was aborted.', originalError);
+    this.name = 'MouseAbortError';
+  }
+}